@@ -1,83 +1,413 @@
 import * as fs from "fs";
 import * as path from "path";
+import * as toml from "@iarna/toml";
+import {
+  CONFIG_NAMES,
+  findConfigFile,
+  readViteCoverageConfigs,
+  type ViteCoverageConfig,
+} from "./vite_config";
+import { isJsonObject, toUnixPath, type JsonObject } from "./util";
 
-export function findCoverageReports(): string[] {
-  const cwd = process.cwd();
-  const configFiles = ["vitest.config.ts", "vitest.config.js", "vite.config.ts", "vite.config.js"];
+export interface DiscoveredReport {
+  path: string;
+  // Where the report location came from, e.g. "vitest.config.ts"
+  source: string;
+}
 
-  let reporters: string[] = [];
-  let reportsDirectory = "coverage";
+// Report files written by each coverage reporter, in order of preference
+const REPORTER_FILES: { [key: string]: string[] } = {
+  lcov: ["lcov.info"],
+  lcovonly: ["lcov.info"],
+  cobertura: ["cobertura-coverage.xml", "cobertura.xml"],
+  clover: ["clover.xml"],
+  jacoco: ["jacoco.xml"],
+  json: ["coverage-final.json"],
+};
 
-  for (const configFile of configFiles) {
-    const configPath = path.join(cwd, configFile);
-    if (fs.existsSync(configPath)) {
-      try {
-        const content = fs.readFileSync(configPath, "utf-8");
-
-        // Extract reporters
-        // Match: reporter: ['lcov', 'json'] or reporter: "lcov"
-        const reporterMatch = content.match(/reporter:\s*(\[[^\]]*\]|['"][^'"]*['"])/);
-        if (reporterMatch && reporterMatch[1]) {
-          const reporterValue = reporterMatch[1];
-          if (reporterValue.startsWith("[")) {
-            // Parse array manually to avoid eval/json parse issues with single quotes
-            const items = reporterValue
-              .slice(1, -1) // remove []
-              .split(",")
-              .map((s) => s.trim().replace(/^['"]|['"]$/g, ""));
-            reporters = items.filter((s) => s.length > 0);
-          } else {
-            reporters = [reporterValue.replace(/^['"]|['"]$/g, "")];
-          }
-        }
+// Default reporters of the test runners, when the config does not set them
+const VITEST_DEFAULT_REPORTERS = ["text", "html", "clover", "json"];
+const JEST_DEFAULT_REPORTERS = ["clover", "json", "lcov", "text"];
 
-        // Extract reportsDirectory
-        const dirMatch = content.match(/reportsDirectory:\s*['"]([^'"]*)['"]/);
-        if (dirMatch && dirMatch[1]) {
-          reportsDirectory = dirMatch[1];
-        }
+// Conventional report locations, scanned when no config points to a report.
+// Only the first existing one is used, as they usually hold the same run.
+const FALLBACK_REPORTS = [
+  "coverage/lcov.info",
+  "coverage/cobertura-coverage.xml",
+  "coverage/cobertura.xml",
+  "coverage/clover.xml",
+  "coverage/coverage-final.json",
+  "lcov.info",
+  "coverage.xml",
+  "target/site/jacoco/jacoco.xml",
+  "build/reports/jacoco/test/jacocoTestReport.xml",
+];
 
-        if (reporters.length > 0) {
-          break; // Found config, stop searching
-        }
-      } catch (e) {
-        console.warn(`Error reading ${configFile}:`, e);
+type Detector = (cwd: string) => DiscoveredReport[];
+
+function readText(filePath: string): string | null {
+  if (!fs.existsSync(filePath)) return null;
+  try {
+    return fs.readFileSync(filePath, "utf-8");
+  } catch (e) {
+    console.warn(`Error reading ${filePath}:`, e);
+    return null;
+  }
+}
+
+function readJson(filePath: string): unknown {
+  const content = readText(filePath);
+  if (content === null) return null;
+  try {
+    return JSON.parse(content);
+  } catch (e) {
+    console.warn(`Error parsing ${filePath}:`, e);
+    return null;
+  }
+}
+
+function stringOption(value: unknown): string | null {
+  return typeof value === "string" && value ? value : null;
+}
+
+/**
+ * Reporter names from a config value: a name, a list of names, or
+ * Jest-style [name, options] tuples.
+ */
+function reporterNames(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : [value];
+  return items
+    .map((item) => (Array.isArray(item) ? item[0] : item))
+    .filter((item): item is string => typeof item === "string" && item.length > 0);
+}
+
+/**
+ * Source text of the top-level elements of the array literal starting at
+ * `start`, or null when the array is not closed.
+ */
+function arrayElements(content: string, start: number): string[] | null {
+  const elements: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let elementStart = start + 1;
+
+  for (let i = start; i < content.length; i++) {
+    const char = content[i]!;
+    if (quote) {
+      if (char === "\\") i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'" || char === "`") {
+      quote = char;
+    } else if (char === "[" || char === "{" || char === "(") {
+      depth++;
+    } else if (char === "]" || char === "}" || char === ")") {
+      depth--;
+      if (depth === 0) {
+        elements.push(content.slice(elementStart, i).trim());
+        return elements.filter((element) => element.length > 0);
       }
+    } else if (char === "," && depth === 1) {
+      elements.push(content.slice(elementStart, i).trim());
+      elementStart = i + 1;
     }
   }
+  return null;
+}
 
-  // If no reporters found in config, but coverage directory exists,
-  // we might try to guess? But user asked to identify FROM config.
-  // If no config found, we return empty list.
+/**
+ * Parses `key: ['a', "b"]` or `key: 'a'` out of a JavaScript config without
+ * evaluating it. Tuple entries such as `['lcov', { projectRoot }]` count by
+ * their first element, object entries in the array are skipped.
+ */
+function matchStringList(content: string, key: string): string[] | null {
+  const match = new RegExp(`(?<![\\w-])${key}['"]?\\s*:\\s*(?=[['"])`).exec(content);
+  if (!match) return null;
 
-  const foundReports: string[] = [];
+  const start = match.index + match[0].length;
+  if (content[start] !== "[") {
+    const value = content.slice(start).match(/^['"]([^'"]*)['"]/);
+    return value ? [value[1]!] : null;
+  }
 
-  if (reporters.length > 0) {
-    // Map reporters to expected files
-    // lcov -> lcov.info
-    // cobertura -> cobertura.xml
-    // json -> coverage-final.json (istanbul)
-    // clover -> clover.xml
-    // jacoco -> jacoco.xml
+  const elements = arrayElements(content, start);
+  if (!elements) return null;
+  return elements
+    .map((element) => (element.startsWith("[") ? arrayElements(element, 0)?.[0] || "" : element))
+    .filter((element) => /^['"][^'"]*['"]$/.test(element))
+    .map((element) => element.slice(1, -1))
+    .filter((element) => element.length > 0);
+}
 
-    // Priorities: lcov > xml > json
+function matchString(content: string, key: string): string | null {
+  const match = content.match(new RegExp(`(?<![\\w-])${key}['"]?\\s*:\\s*['"]([^'"]*)['"]`));
+  return match && match[1] ? match[1] : null;
+}
+
+/**
+ * Existing report files written by the reporters into a directory, with
+ * optional custom file names per reporter.
+ */
+function reportsIn(
+  cwd: string,
+  directory: string,
+  reporters: string[],
+  source: string,
+  files: { [key: string]: string } = {},
+): DiscoveredReport[] {
+  const found: DiscoveredReport[] = [];
+  for (const reporter of reporters) {
+    const filenames = files[reporter] ? [files[reporter]] : REPORTER_FILES[reporter] || [];
+    for (const filename of filenames) {
+      const reportPath = path.resolve(cwd, directory, filename);
+      if (fs.existsSync(reportPath) && !found.some((r) => r.path === reportPath)) {
+        found.push({ path: reportPath, source });
+        break;
+      }
+    }
+  }
+  return found;
+}
 
+/**
+ * Existing reports of a Vite/Vitest config and its workspace projects.
+ * Projects without their own coverage settings use those of the root config.
+ */
+function viteReports(cwd: string, configs: ViteCoverageConfig[]): DiscoveredReport[] {
+  const rootConfig = configs[0]!;
+  const defaultReporters = VITEST_DEFAULT_REPORTERS.map((name) => ({ name, file: null }));
+
+  const found: DiscoveredReport[] = [];
+  for (const config of configs) {
+    const reporters = config.reporters || rootConfig.reporters || defaultReporters;
+    const files: { [key: string]: string } = {};
     for (const reporter of reporters) {
-      let filename = "";
-      if (reporter === "lcov") filename = "lcov.info";
-      else if (reporter === "cobertura") filename = "cobertura.xml";
-      else if (reporter === "clover") filename = "clover.xml";
-      else if (reporter === "jacoco") filename = "jacoco.xml";
-      // else if (reporter === "json") filename = "coverage-final.json"; // This varies, maybe skip json for now as lcov/xml are preferred for diff-cover
-
-      if (filename) {
-        const reportPath = path.join(cwd, reportsDirectory, filename);
-        if (fs.existsSync(reportPath)) {
-          foundReports.push(reportPath);
+      if (reporter.file) files[reporter.name] = reporter.file;
+    }
+    const directory = path.resolve(
+      config.root,
+      config.reportsDirectory || rootConfig.reportsDirectory || "coverage",
+    );
+    const source = toUnixPath(path.relative(cwd, config.configFile));
+    const names = reporters.map((reporter) => reporter.name);
+    for (const report of reportsIn(cwd, directory, names, source, files)) {
+      if (!found.some((r) => r.path === report.path)) found.push(report);
+    }
+  }
+  return found;
+}
+
+function detectVitest(cwd: string): DiscoveredReport[] {
+  for (const name of CONFIG_NAMES) {
+    const configPath = findConfigFile(cwd, [name]);
+    if (!configPath) continue;
+    const content = readText(configPath);
+    if (content === null) continue;
+    const configFile = path.basename(configPath);
+
+    const configs = readViteCoverageConfigs(configPath);
+    if (configs && configs.length > 0) {
+      const found = viteReports(cwd, configs);
+      // The first config which sets reporters wins
+      if (found.length > 0 || configs.some((config) => config.reporters?.length)) return found;
+      continue;
+    }
+
+    // Without the typescript package the config is scanned as text
+    const reporters = matchStringList(content, "reporter");
+    const reportsDirectory = matchString(content, "reportsDirectory") || "coverage";
+    if (reporters && reporters.length > 0) {
+      // The first config which sets reporters wins
+      return reportsIn(cwd, reportsDirectory, reporters, configFile);
+    }
+    const found = reportsIn(cwd, reportsDirectory, VITEST_DEFAULT_REPORTERS, configFile);
+    if (found.length > 0) return found;
+  }
+  return [];
+}
+
+// Jest paths may start with <rootDir>, the directory of the config
+function withoutRootDir(directory: string): string {
+  return directory.replace(/^<rootDir>\/?/, "");
+}
+
+function detectJest(cwd: string): DiscoveredReport[] {
+  const configFiles = ["jest.config.ts", "jest.config.js", "jest.config.mjs", "jest.config.cjs"];
+
+  for (const configFile of configFiles) {
+    const content = readText(path.join(cwd, configFile));
+    if (content === null) continue;
+
+    const reporters = matchStringList(content, "coverageReporters") || JEST_DEFAULT_REPORTERS;
+    const directory = matchString(content, "coverageDirectory") || "coverage";
+    return reportsIn(cwd, withoutRootDir(directory), reporters, configFile);
+  }
+
+  const jsonConfig = readJson(path.join(cwd, "jest.config.json"));
+  const packageJson = readJson(path.join(cwd, "package.json"));
+  const [config, source] = isJsonObject(jsonConfig)
+    ? [jsonConfig, "jest.config.json"]
+    : [isJsonObject(packageJson) ? packageJson.jest : null, 'package.json "jest"'];
+  if (!isJsonObject(config)) return [];
+
+  const reporters = config.coverageReporters
+    ? reporterNames(config.coverageReporters)
+    : JEST_DEFAULT_REPORTERS;
+  const directory = stringOption(config.coverageDirectory) || "coverage";
+  return reportsIn(cwd, withoutRootDir(directory), reporters, source);
+}
+
+/**
+ * Options from an .nycrc/.c8rc file, in JSON or a flat YAML subset.
+ */
+function readRcFile(filePath: string): JsonObject | null {
+  const content = readText(filePath);
+  if (content === null) return null;
+  if (content.trim().startsWith("{")) {
+    const options = readJson(filePath);
+    return isJsonObject(options) ? options : null;
+  }
+
+  const options: { [key: string]: string | string[] } = {};
+  let listKey: string | null = null;
+  for (const line of content.split(/\r?\n/)) {
+    const item = line.match(/^\s*-\s*['"]?([^'"]+?)['"]?\s*$/);
+    const list = listKey ? options[listKey] : undefined;
+    if (item && Array.isArray(list)) {
+      list.push(item[1]!);
+      continue;
+    }
+    const entry = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+    if (!entry) continue;
+
+    const value = entry[2]!.trim();
+    listKey = value ? null : entry[1]!;
+    if (!value) {
+      options[entry[1]!] = [];
+    } else if (value.startsWith("[")) {
+      options[entry[1]!] = value
+        .slice(1, -1)
+        .split(",")
+        .map((s) => s.trim().replace(/^['"]|['"]$/g, ""));
+    } else {
+      options[entry[1]!] = value.replace(/^['"]|['"]$/g, "");
+    }
+  }
+  return options;
+}
+
+function detectNycOrC8(cwd: string): DiscoveredReport[] {
+  for (const tool of ["nyc", "c8"]) {
+    const rcFiles = [`.${tool}rc`, `.${tool}rc.json`, `.${tool}rc.yml`, `.${tool}rc.yaml`];
+
+    let config: JsonObject | null = null;
+    let source = "";
+    for (const rcFile of rcFiles) {
+      config = readRcFile(path.join(cwd, rcFile));
+      if (config) {
+        source = rcFile;
+        break;
+      }
+    }
+    if (!config) {
+      const packageJson = readJson(path.join(cwd, "package.json"));
+      const toolConfig = isJsonObject(packageJson) ? packageJson[tool] : null;
+      config = isJsonObject(toolConfig) ? toolConfig : null;
+      source = `package.json "${tool}"`;
+    }
+    if (!config || !config.reporter) continue;
+
+    const directory =
+      stringOption(config["report-dir"]) || stringOption(config.reportDir) || "coverage";
+    const found = reportsIn(cwd, directory, reporterNames(config.reporter), source);
+    if (found.length > 0) return found;
+  }
+  return [];
+}
+
+function detectBun(cwd: string): DiscoveredReport[] {
+  const content = readText(path.join(cwd, "bunfig.toml"));
+  if (content === null) return [];
+
+  let testConfig: unknown;
+  try {
+    testConfig = toml.parse(content).test;
+  } catch (e) {
+    console.warn("Error parsing bunfig.toml:", e);
+    return [];
+  }
+  if (!isJsonObject(testConfig) || !testConfig.coverageReporter) return [];
+
+  const directory = stringOption(testConfig.coverageDir) || "coverage";
+  return reportsIn(cwd, directory, reporterNames(testConfig.coverageReporter), "bunfig.toml");
+}
+
+function detectKarma(cwd: string): DiscoveredReport[] {
+  const configFiles = ["karma.conf.js", "karma.conf.cjs", "karma.conf.ts"];
+
+  for (const configFile of configFiles) {
+    const content = readText(path.join(cwd, configFile));
+    if (content === null) continue;
+
+    // karma-coverage: { type: 'lcov' }; karma-coverage-istanbul-reporter: reports: ['lcovonly']
+    const reporters = [
+      ...Array.from(content.matchAll(/type\s*:\s*['"]([^'"]+)['"]/g), (m) => m[1]!),
+      ...(matchStringList(content, "reports") || []),
+    ];
+    const directory = matchString(content, "dir") || "coverage";
+    const subdir = matchString(content, "subdir");
+
+    const directories = [subdir ? path.join(directory, subdir) : directory];
+    if (!subdir) {
+      // karma-coverage writes one subdirectory per browser by default
+      try {
+        for (const entry of fs.readdirSync(path.join(cwd, directory), { withFileTypes: true })) {
+          if (entry.isDirectory()) directories.push(path.join(directory, entry.name));
         }
+      } catch {
+        // No report directory yet
       }
     }
+
+    const found = directories.flatMap((dir) => reportsIn(cwd, dir, reporters, configFile));
+    if (found.length > 0) return found;
   }
+  return [];
+}
+
+function detectFallback(cwd: string): DiscoveredReport[] {
+  return FALLBACK_REPORTS.filter((report) => fs.existsSync(path.join(cwd, report)))
+    .slice(0, 1)
+    .map((report) => ({ path: path.join(cwd, report), source: "conventional location" }));
+}
+
+const DETECTORS: Detector[] = [
+  detectVitest,
+  detectJest,
+  detectNycOrC8,
+  detectBun,
+  detectKarma,
+  detectFallback,
+];
+
+/**
+ * Locates coverage reports from the test runner configuration in the current
+ * directory (Vite/Vitest, Jest, nyc/c8, Bun, Karma), falling back to
+ * conventional report locations. The first source with existing reports wins.
+ */
+export function discoverCoverageReports(): DiscoveredReport[] {
+  const cwd = process.cwd();
 
-  return foundReports;
+  for (const detect of DETECTORS) {
+    const foundReports = detect(cwd);
+    if (foundReports.length === 0) continue;
+
+    // The Istanbul JSON report is only used when no lcov/xml report was found
+    const otherReports = foundReports.filter((r) => !r.path.endsWith(".json"));
+    return otherReports.length > 0 ? otherReports : foundReports;
+  }
+  return [];
+}
+
+export function findCoverageReports(): string[] {
+  return discoverCoverageReports().map((report) => report.path);
 }
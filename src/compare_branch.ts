@@ -0,0 +1,186 @@
+import { execute } from "./command_runner";
+
+/**
+ * The --compare-branch value which asks for the branch to be detected.
+ */
+export const AUTO_COMPARE_BRANCH = "auto";
+
+/**
+ * Branches tried, in order, when nothing better is known.
+ */
+export const DEFAULT_FALLBACK_BRANCHES = [
+  "origin/main",
+  "origin/master",
+  "origin/develop",
+  "main",
+  "master",
+  "develop",
+];
+
+/**
+ * Environment variables CI services set to the target branch of a pull or
+ * merge request.
+ */
+const CI_BASE_BRANCH_VARIABLES = [
+  // GitHub Actions
+  "GITHUB_BASE_REF",
+  // GitLab CI
+  "CI_MERGE_REQUEST_TARGET_BRANCH_NAME",
+  // Azure Pipelines
+  "SYSTEM_PULLREQUEST_TARGETBRANCH",
+  // Bitbucket Pipelines
+  "BITBUCKET_PR_DESTINATION_BRANCH",
+  // Jenkins multibranch pipelines
+  "CHANGE_TARGET",
+  // Buildkite
+  "BUILDKITE_PULL_REQUEST_BASE_BRANCH",
+];
+
+export class CompareBranchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CompareBranchError";
+  }
+}
+
+export interface ResolvedCompareBranch {
+  branch: string;
+  // Where the branch came from, for the message naming it
+  source: string;
+}
+
+/**
+ * Output of a git command, or null when it fails.
+ */
+export type GitCommand = (args: string[]) => string | null;
+
+function runGit(args: string[]): string | null {
+  try {
+    return execute(["git", ...args])[0].trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Finds the branch a diff should be compared to, trying in order:
+ * - the pull request target branch set by the CI service,
+ * - the default branch of the origin remote (origin/HEAD),
+ * - the upstream of the current branch, unless it is the same branch on the
+ *   remote, which would leave out every pushed change,
+ * - the fallback branches, the first one that exists.
+ */
+export function resolveCompareBranch(
+  fallbacks: string[] = DEFAULT_FALLBACK_BRANCHES,
+  env: { [key: string]: string | undefined } = process.env,
+  git: GitCommand = runGit,
+): ResolvedCompareBranch {
+  const exists = (ref: string) => git(["rev-parse", "--verify", "--quiet", `${ref}^{commit}`]);
+
+  for (const variable of CI_BASE_BRANCH_VARIABLES) {
+    const name = env[variable]?.replace(/^refs\/heads\//, "");
+    if (!name) continue;
+
+    // CI checkouts do not always fetch the target branch as a remote branch
+    for (const candidate of [`origin/${name}`, name]) {
+      if (exists(candidate)) return { branch: candidate, source: variable };
+    }
+  }
+
+  const originHead = git(["symbolic-ref", "--quiet", "--short", "refs/remotes/origin/HEAD"]);
+  if (originHead && exists(originHead)) {
+    return { branch: originHead, source: "origin/HEAD" };
+  }
+
+  const upstream = git(["rev-parse", "--abbrev-ref", "--symbolic-full-name", "@{upstream}"]);
+  const current = git(["rev-parse", "--abbrev-ref", "HEAD"]);
+  if (upstream && current && upstream.replace(/^[^/]+\//, "") !== current) {
+    return { branch: upstream, source: `upstream of ${current}` };
+  }
+
+  for (const fallback of fallbacks) {
+    if (exists(fallback)) return { branch: fallback, source: "fallback list" };
+  }
+
+  throw new CompareBranchError(
+    `Could not detect the branch to compare to, tried ${fallbacks.join(", ")}. ` +
+      `Set it with --compare-branch.`,
+  );
+}
+
+/**
+ * The branch the diff is compared to. `auto`, given to --compare-branch or
+ * --base, is detected with resolveCompareBranch and the result named on
+ * stderr unless quiet. A diff file needs no branch and is left alone.
+ */
+export function compareBranchFromConfig(
+  config: Record<string, any>,
+  env: { [key: string]: string | undefined } = process.env,
+  git: GitCommand = runGit,
+): string {
+  const compareBranch: string = config.base || config.compareBranch;
+  if (compareBranch !== AUTO_COMPARE_BRANCH || config.diffFile) return compareBranch;
+
+  // One branch from a TOML string, several from the repeatable option
+  const fallbacks: string | string[] | undefined = config.compareBranchFallback;
+  const resolved = resolveCompareBranch(
+    typeof fallbacks === "string" ? [fallbacks] : fallbacks || DEFAULT_FALLBACK_BRANCHES,
+    env,
+    git,
+  );
+  if (!config.quiet) {
+    console.error(`Using compare branch ${resolved.branch} (from ${resolved.source})`);
+  }
+  return resolved.branch;
+}
+
+/**
+ * Which changes go into the diff, and where the changed sources are read.
+ */
+export interface DiffScope {
+  head: string;
+  ignoreStaged: boolean;
+  ignoreUnstaged: boolean;
+  includeUntracked: boolean;
+  // Revision the sources are read at, null for the working tree
+  sourceRevision: string | null;
+}
+
+/**
+ * An explicit commit range, given with --base or --head, leaves the working
+ * tree out of the diff, and its sources are read at the end of the range.
+ */
+export function diffScopeFromConfig(config: Record<string, any>): DiffScope {
+  const head: string = config.head || "HEAD";
+  const explicitRange = Boolean(config.base || config.head);
+  return {
+    head,
+    ignoreStaged: Boolean(config.ignoreStaged) || explicitRange,
+    ignoreUnstaged: Boolean(config.ignoreUnstaged) || explicitRange,
+    includeUntracked: Boolean(config.includeUntracked) && !explicitRange,
+    sourceRevision: explicitRange && !config.diffFile ? head : null,
+  };
+}
+
+/**
+ * diff-quality runs the linter on the working tree, so without reports it can
+ * only check an explicit range whose end is checked out with no changes.
+ */
+export function checkQualityRange(
+  scope: DiffScope,
+  hasReports: boolean,
+  git: GitCommand = runGit,
+): void {
+  const revision = scope.sourceRevision;
+  if (!revision || hasReports) return;
+
+  const headCommit = git(["rev-parse", "--verify", "--quiet", `${revision}^{commit}`]);
+  const checkedOut = git(["rev-parse", "--verify", "--quiet", "HEAD^{commit}"]);
+  const changes = git(["status", "--porcelain", "--untracked-files=no"]);
+  if (headCommit && headCommit === checkedOut && changes === "") return;
+
+  throw new CompareBranchError(
+    `diff-quality lints the working tree, which differs from ${revision}. ` +
+      `Check out ${revision} without local changes, or pass reports of the linter run at ${revision}.`,
+  );
+}
@@ -0,0 +1,175 @@
+import fs from "fs";
+import {
+  CoveragePyJsonReporter,
+  GcovJsonReporter,
+  GoCoverageReporter,
+  IstanbulCoverageReporter,
+  LlvmCovJsonReporter,
+  V8CoverageReporter,
+  type XmlDialect,
+} from "./violations_reporter";
+import { XmlStreamParser } from "./xml_stream";
+
+export type CoverageFormat =
+  | "cobertura"
+  | "clover"
+  | "jacoco"
+  | "lcov"
+  | "istanbul"
+  | "v8"
+  | "go"
+  | "coverage.py"
+  | "llvm-cov"
+  | "gcov";
+
+export const COVERAGE_FORMATS: CoverageFormat[] = [
+  "cobertura",
+  "clover",
+  "jacoco",
+  "lcov",
+  "istanbul",
+  "v8",
+  "go",
+  "coverage.py",
+  "llvm-cov",
+  "gcov",
+];
+
+// XML reports are streamed, the others are read into memory
+const XML_FORMATS: XmlDialect[] = ["cobertura", "clover", "jacoco"];
+
+// Enough of a report to find the root element of an XML report
+const HEAD_SIZE = 64 * 1024;
+
+export class CoverageFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CoverageFormatError";
+  }
+}
+
+interface XmlRoot {
+  name: string;
+  attributes: { [key: string]: string };
+}
+
+interface FormatSniffer {
+  format: CoverageFormat;
+  // xmlRoot is the root element of XML content, null otherwise
+  sniff: (content: string, xmlRoot: XmlRoot | null) => boolean;
+}
+
+/**
+ * Formats in the order they are tried. Every format has an explicit check,
+ * so content that matches none of them is reported instead of being read as
+ * an empty lcov report.
+ */
+const FORMAT_SNIFFERS: FormatSniffer[] = [
+  {
+    format: "clover",
+    sniff: (_content, root) => root?.name === "coverage" && "clover" in root.attributes,
+  },
+  {
+    format: "cobertura",
+    // Any other <coverage> root, attributes vary between the tools writing it
+    sniff: (_content, root) => root?.name === "coverage",
+  },
+  {
+    format: "jacoco",
+    sniff: (_content, root) => root?.name === "report",
+  },
+  {
+    format: "go",
+    sniff: (content) => GoCoverageReporter.isGoCoverProfile(content),
+  },
+  {
+    format: "v8",
+    sniff: (content) => V8CoverageReporter.isV8Report(content),
+  },
+  {
+    format: "llvm-cov",
+    sniff: (content) => LlvmCovJsonReporter.isLlvmCovReport(content),
+  },
+  {
+    format: "gcov",
+    sniff: (content) => GcovJsonReporter.isGcovReport(content),
+  },
+  {
+    format: "coverage.py",
+    sniff: (content) => CoveragePyJsonReporter.isCoveragePyReport(content),
+  },
+  {
+    format: "istanbul",
+    sniff: (content) => IstanbulCoverageReporter.isIstanbulReport(content),
+  },
+  {
+    format: "lcov",
+    // An empty tracefile is what lcov writes when nothing ran
+    sniff: (content) => !content.trim() || /^(TN|SF):/m.test(content),
+  },
+];
+
+/**
+ * Root element of XML content, which may be the truncated head of a file.
+ */
+function xmlRoot(content: string): XmlRoot | null {
+  let root: XmlRoot | null = null;
+  const parser = new XmlStreamParser({
+    openTag: (name, attributes) => {
+      root = root || { name, attributes };
+    },
+  });
+  try {
+    parser.write(content);
+  } catch {
+    return null;
+  }
+  return root;
+}
+
+export function isXmlFormat(format: CoverageFormat): format is XmlDialect {
+  return (XML_FORMATS as string[]).includes(format);
+}
+
+/**
+ * Detects the format of a coverage report from its content. XML reports only
+ * need their head, up to the root element. Returns null for unknown content.
+ */
+export function detectCoverageFormat(content: string): CoverageFormat | null {
+  const root = content.trimStart().startsWith("<") ? xmlRoot(content) : null;
+  for (const { format, sniff } of FORMAT_SNIFFERS) {
+    if (sniff(content, root)) return format;
+  }
+  return null;
+}
+
+/**
+ * The first bytes of a report, enough to detect an XML report without
+ * reading all of it.
+ */
+export function readReportHead(filePath: string): string {
+  const buffer = Buffer.alloc(HEAD_SIZE);
+  const fd = fs.openSync(filePath, "r");
+  try {
+    const bytesRead = fs.readSync(fd, buffer, 0, HEAD_SIZE, 0);
+    return buffer.subarray(0, bytesRead).toString("utf-8");
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * The error for a report which could not be parsed as the format it was
+ * detected (or declared) as.
+ */
+export function coverageParseError(
+  file: string,
+  format: CoverageFormat,
+  detected: boolean,
+  cause: Error,
+): CoverageFormatError {
+  const how = detected ? "detected as" : "given as";
+  return new CoverageFormatError(
+    `Could not parse ${file} (${how} ${format} coverage): ${cause.message}`,
+  );
+}
@@ -1,16 +1,60 @@
 import { Command, Option } from "commander";
 import * as fs from "fs";
-import { XmlCoverageReporter, LcovCoverageReporter } from "./violations_reporter";
+import * as path from "path";
+import {
+  XmlCoverageReporter,
+  LcovCoverageReporter,
+  IstanbulCoverageReporter,
+  V8CoverageReporter,
+  GoCoverageReporter,
+  CoveragePyJsonReporter,
+  LlvmCovJsonReporter,
+  GcovJsonReporter,
+  CompositeCoverageReporter,
+  SourceMappedCoverageReporter,
+  MissingFilesAsUncoveredReporter,
+  IgnorePragmasReporter,
+  DEFAULT_SOURCE_EXTENSIONS,
+  BaseViolationReporter,
+  MERGE_STRATEGIES,
+  type XmlDialect,
+} from "./violations_reporter";
+import {
+  COVERAGE_FORMATS,
+  CoverageFormatError,
+  coverageParseError,
+  detectCoverageFormat,
+  isXmlFormat,
+  readReportHead,
+  type CoverageFormat,
+} from "./coverage_formats";
 import { GitDiffReporter } from "./diff_reporter";
-import { GitDiffTool, GitDiffFileTool } from "./git_diff";
+import { DEFAULT_RENAME_THRESHOLD, GitDiffTool, GitDiffFileTool } from "./git_diff";
+import { compareBranchFromConfig, diffScopeFromConfig } from "./compare_branch";
 import { GitPathTool } from "./git_path";
+import { Snippet } from "./snippets";
+import { PathMapTool, parsePathMap } from "./path_map";
+import { parseExcludeLines } from "./ignore_pragmas";
+import {
+  checkStdinUsage,
+  collectValues,
+  isCompressedPath,
+  readInputFile,
+  STDIN_PATH,
+} from "./util";
 import {
   HtmlReportGenerator,
   JsonReportGenerator,
   StringReportGenerator,
 } from "./report_generator";
 import { getConfig, Tool } from "./config_parser";
-import { findCoverageReports } from "./auto_config";
+import { discoverCoverageReports } from "./auto_config";
+import {
+  diagnosePaths,
+  formatPathDiagnostics,
+  sourcePaths,
+  unmeasuredPaths,
+} from "./path_diagnostics";
 
 const VERSION = "0.1.0";
 
@@ -28,6 +72,129 @@ function formatType(value: string, previous: Record<string, string>): Record<str
   return format;
 }
 
+interface CoverageReport {
+  file: string;
+  format: CoverageFormat;
+  // False when the format was given with --coverage-format
+  detected: boolean;
+  // Null for XML files, which are streamed from disk, and V8 directories
+  content: string | null;
+  // Set for NODE_V8_COVERAGE directories, one entry per process dump
+  v8Dumps?: string[];
+}
+
+function contents(reports: CoverageReport[]): string[] {
+  return reports.filter((r) => r.content !== null).map((r) => r.content!);
+}
+
+function xmlReporter(
+  reports: CoverageReport[],
+  config: Record<string, any>,
+  dialect: XmlDialect,
+): BaseViolationReporter {
+  return new XmlCoverageReporter(
+    contents(reports),
+    config.srcRoots,
+    config.expandCoverageReport,
+    config.mergeStrategy,
+    reports.filter((r) => r.content === null).map((r) => r.file),
+    dialect,
+  );
+}
+
+const REPORTER_FACTORIES: {
+  [key in CoverageFormat]: (
+    reports: CoverageReport[],
+    config: Record<string, any>,
+  ) => BaseViolationReporter;
+} = {
+  cobertura: (reports, config) => xmlReporter(reports, config, "cobertura"),
+  clover: (reports, config) => xmlReporter(reports, config, "clover"),
+  jacoco: (reports, config) => xmlReporter(reports, config, "jacoco"),
+  lcov: (reports, config) =>
+    new LcovCoverageReporter(
+      contents(reports),
+      config.srcRoots,
+      config.expandCoverageReport,
+      config.mergeStrategy,
+    ),
+  istanbul: (reports, config) =>
+    new IstanbulCoverageReporter(contents(reports), config.mergeStrategy),
+  v8: (reports, config) =>
+    new V8CoverageReporter(
+      reports.map((r) => r.v8Dumps || [r.content!]),
+      config.mergeStrategy,
+    ),
+  go: (reports, config) =>
+    new GoCoverageReporter(
+      contents(reports),
+      GoCoverageReporter.findGoModules(),
+      config.mergeStrategy,
+    ),
+  "coverage.py": (reports, config) =>
+    new CoveragePyJsonReporter(contents(reports), config.mergeStrategy),
+  "llvm-cov": (reports, config) => new LlvmCovJsonReporter(contents(reports), config.mergeStrategy),
+  gcov: (reports, config) => new GcovJsonReporter(contents(reports), config.mergeStrategy),
+};
+
+/**
+ * Creates the reporter of one format. When the reports cannot be parsed,
+ * the report at fault is named in the error.
+ */
+function createFormatReporter(
+  format: CoverageFormat,
+  reports: CoverageReport[],
+  config: Record<string, any>,
+): BaseViolationReporter {
+  const create = REPORTER_FACTORIES[format];
+  try {
+    return create(reports, config);
+  } catch (e: any) {
+    for (const report of reports) {
+      try {
+        create([report], config);
+      } catch (reportError: any) {
+        throw coverageParseError(report.file, format, report.detected, reportError);
+      }
+    }
+    throw e;
+  }
+}
+
+function sourceExtensions(config: Record<string, any>): string[] {
+  return typeof config.sourceExtensions === "string"
+    ? config.sourceExtensions.split(",").map((ext: string) => ext.trim())
+    : config.sourceExtensions || DEFAULT_SOURCE_EXTENSIONS;
+}
+
+function createCoverageReporter(
+  reports: CoverageReport[],
+  config: Record<string, any>,
+  excludePatterns: RegExp[],
+): BaseViolationReporter {
+  const reporters: BaseViolationReporter[] = [];
+  for (const format of COVERAGE_FORMATS) {
+    const formatReports = reports.filter((report) => report.format === format);
+    if (formatReports.length > 0) {
+      reporters.push(createFormatReporter(format, formatReports, config));
+    }
+  }
+
+  const reporter =
+    reporters.length === 1
+      ? reporters[0]!
+      : new CompositeCoverageReporter(reporters, config.mergeStrategy);
+  const sourceMapped = config.sourceMaps ? new SourceMappedCoverageReporter(reporter) : reporter;
+  if (!config.missingFilesAsUncovered) {
+    return new IgnorePragmasReporter(sourceMapped, excludePatterns);
+  }
+
+  return new IgnorePragmasReporter(
+    new MissingFilesAsUncoveredReporter(sourceMapped, sourceExtensions(config)),
+    excludePatterns,
+  );
+}
+
 async function main() {
   const program = new Command();
 
@@ -37,25 +204,65 @@ async function main() {
     .version(VERSION);
 
   program
-    .argument("[coverage_files...]", "coverage report files (XML or lcov.info)")
+    .argument(
+      "[coverage_files...]",
+      "coverage report files (XML, lcov.info, Istanbul coverage-final.json, coverage.py JSON, llvm-cov/gcov JSON, Go coverprofile) or NODE_V8_COVERAGE directories; gzipped or '-' for standard input",
+    )
     .option("--format <value>", "Format to use", formatType)
     .option("--show-uncovered", "Show uncovered lines on the console")
     .option(
       "--expand-coverage-report",
       "Append missing lines in coverage reports based on the hits of the previous line",
     )
+    .option(
+      "--source-maps",
+      "Map coverage of generated files back to their original sources using source maps",
+    )
     .option("--external-css-file <filename>", "Write CSS into an external file")
-    .option("--compare-branch <branch>", "Branch to compare", "origin/main")
+    .option(
+      "--compare-branch <branch>",
+      "Branch to compare (default: origin/main), or 'auto' to detect it from CI variables, " +
+        "origin/HEAD, the upstream branch and the fallback branches",
+    )
+    .option(
+      "--compare-branch-fallback <branch>",
+      "Branch --compare-branch auto tries when nothing else is found (can be repeated)",
+      collectValues,
+    )
+    .option(
+      "--base <revision>",
+      "Start of an explicit commit range to diff instead of the compare branch, " +
+        "leaving out staged, unstaged and untracked changes",
+    )
+    .option(
+      "--head <revision>",
+      "End of an explicit commit range to diff instead of HEAD, " +
+        "leaving out staged, unstaged and untracked changes",
+    )
     .option(
       "--fail-under <score>",
       "Returns an error code if coverage or quality score is below this value",
       parseFloat,
     )
+    .option(
+      "--fail-under-branches <score>",
+      "Returns an error code if branch coverage of the diff is below this value",
+      parseFloat,
+    )
+    .option(
+      "--fail-on-uncalled-functions",
+      "Returns an error code if a new or modified function was never called",
+    )
     .option("--ignore-staged", "Ignores staged changes")
     .option("--ignore-unstaged", "Ignores unstaged changes")
     .option("--include-untracked", "Include untracked files")
     .option("--exclude <patterns...>", "Exclude files, more patterns supported")
     .option("--include <patterns...>", "Files to include (glob pattern)")
+    .option(
+      "--path-map <from=to>",
+      "Rewrite the FROM path prefix in reports to TO, e.g. /app=. (can be repeated)",
+      collectValues,
+    )
     .option(
       "--src-roots <directories...>",
       "List of source directories (only for jacoco coverage reports)",
@@ -65,10 +272,51 @@ async function main() {
         .choices(["...", ".."])
         .default("..."),
     )
+    .addOption(
+      new Option(
+        "--merge-strategy <strategy>",
+        "How to merge multiple coverage reports: a line is covered if any report covers it " +
+          "(union), if every report measuring it covers it (intersection), or union with " +
+          "each report also gated on its own (per-report)",
+      ).choices(MERGE_STRATEGIES),
+    )
+    .addOption(
+      new Option(
+        "--coverage-format <format>",
+        "Read all coverage files in this format instead of detecting it from their content",
+      ).choices(COVERAGE_FORMATS),
+    )
+    .option(
+      "--exclude-lines <regex>",
+      "Ignore changed lines matching the regex, in addition to '# pragma: no cover' (can be repeated)",
+      collectValues,
+    )
+    .option(
+      "--missing-files-as-uncovered",
+      "Count every line of changed source files missing from the coverage reports as uncovered",
+    )
+    .option(
+      "--source-extensions <extensions>",
+      "Comma-separated extensions of the source files --missing-files-as-uncovered applies to",
+    )
+    .option(
+      "--diagnose-paths",
+      "List changed files without coverage data and the report paths closest to them",
+    )
     .option("--ignore-whitespace", "When getting a diff ignore any and all whitespace")
+    .option(
+      "--rename-threshold <percent>",
+      "Minimum similarity for git to detect a renamed file, whose unchanged lines " +
+        "are then left out of the diff",
+      parseFloat,
+    )
+    .option(
+      "--ignore-moved",
+      "Leave out added lines which were moved unchanged from elsewhere in the diff",
+    )
     .option("-q, --quiet", "Only print errors and failures")
     .option("-c, --config-file <file>", "The configuration file to use")
-    .option("--diff-file <file>", "The diff file to use")
+    .option("--diff-file <file>", "The diff file to use, '-' for standard input")
     .option(
       "--total-percent-float",
       "Show total coverage/quality as a float rounded to 2 decimal places",
@@ -78,14 +326,22 @@ async function main() {
     showUncovered: false,
     compareBranch: "origin/main",
     failUnder: 0,
+    failUnderBranches: 0,
+    failOnUncalledFunctions: false,
     ignoreStaged: false,
     ignoreUnstaged: false,
     ignoreUntracked: false,
     srcRoots: ["src/main/java", "src/test/java"],
     ignoreWhitespace: false,
+    renameThreshold: DEFAULT_RENAME_THRESHOLD,
+    ignoreMoved: false,
     diffRangeNotation: "...",
     quiet: false,
     expandCoverageReport: false,
+    mergeStrategy: "union",
+    sourceMaps: false,
+    diagnosePaths: false,
+    missingFilesAsUncovered: false,
     totalPercentFloat: false,
   };
 
@@ -99,71 +355,139 @@ async function main() {
 
   // Initialize GitPathTool
   GitPathTool.setCwd(process.cwd());
+  // Pragmas, V8 sources and missing files are read where the diff ends
+  const scope = diffScopeFromConfig(config);
+  Snippet.setRevision(scope.sourceRevision);
+
+  let excludePatterns: RegExp[];
+  try {
+    PathMapTool.setPathMap(parsePathMap(config.pathMap));
+    excludePatterns = parseExcludeLines(config.excludeLines);
+    checkStdinUsage([config.diffFile, ...program.args]);
+  } catch (e: any) {
+    console.error(e.message);
+    process.exit(1);
+  }
 
   let diffTool;
   if (config.diffFile) {
     diffTool = new GitDiffFileTool(config.diffFile);
   } else {
-    diffTool = new GitDiffTool(config.diffRangeNotation, config.ignoreWhitespace);
+    try {
+      diffTool = new GitDiffTool(
+        config.diffRangeNotation,
+        config.ignoreWhitespace,
+        config.renameThreshold,
+      );
+    } catch (e: any) {
+      console.error(e.message);
+      process.exit(1);
+    }
   }
 
   let coverageFiles = program.args;
 
   if (coverageFiles.length === 0) {
-    // Try to auto-detect coverage reports from vite/vitest config
-    const autoDetected = findCoverageReports();
+    // Try to auto-detect coverage reports from the test runner config
+    const autoDetected = discoverCoverageReports();
     if (autoDetected.length > 0) {
-      console.log(`Auto-detected coverage reports: ${autoDetected.join(", ")}`);
-      coverageFiles = autoDetected;
+      for (const report of autoDetected) {
+        console.log(`Auto-detected coverage report: ${report.path} (from ${report.source})`);
+      }
+      coverageFiles = autoDetected.map((report) => report.path);
     } else {
       console.error("No coverage files provided and none could be auto-detected from config.");
       process.exit(1);
     }
   }
 
-  const xmlRoots: string[] = [];
-  const lcovRoots: string[] = [];
+  const coverageFormat: CoverageFormat | undefined = config.coverageFormat;
+  if (coverageFormat && !COVERAGE_FORMATS.includes(coverageFormat)) {
+    console.error(
+      `Unknown coverage format '${coverageFormat}', expected one of: ${COVERAGE_FORMATS.join(", ")}`,
+    );
+    process.exit(1);
+  }
 
+  const reports: CoverageReport[] = [];
   for (const file of coverageFiles) {
     try {
-      const content = fs.readFileSync(file, "utf-8");
-      if (content.trim().startsWith("<?xml") || file.endsWith(".xml")) {
-        xmlRoots.push(content);
-      } else {
-        lcovRoots.push(content);
+      // Standard input and compressed reports cannot be streamed or sniffed
+      // from their head, they are read whole
+      const whole = file === STDIN_PATH || isCompressedPath(file) ? readInputFile(file) : null;
+      if (whole === null && fs.statSync(file).isDirectory()) {
+        const v8Dumps = fs
+          .readdirSync(file)
+          .filter((name) => name.endsWith(".json"))
+          .sort()
+          .map((name) => fs.readFileSync(path.join(file, name), "utf-8"));
+        reports.push({ file, format: "v8", detected: true, content: null, v8Dumps });
+        continue;
       }
+
+      // XML reports can be huge, their root element is enough to detect them
+      const head = whole ?? readReportHead(file);
+      let content =
+        whole ?? (head.trimStart().startsWith("<") ? null : fs.readFileSync(file, "utf-8"));
+      const format = coverageFormat || detectCoverageFormat(content ?? head);
+      if (!format) {
+        console.error(
+          `Could not detect the coverage format of ${file}, set it with --coverage-format ` +
+            `(one of: ${COVERAGE_FORMATS.join(", ")})`,
+        );
+        process.exit(1);
+      }
+
+      if (isXmlFormat(format)) {
+        // Streamed when the diff is known, unless already in memory
+        content = whole;
+      } else if (content === null) {
+        content = fs.readFileSync(file, "utf-8");
+      }
+      reports.push({ file, format, detected: !coverageFormat, content });
     } catch (e: any) {
       console.error(`Could not read file ${file}: ${e.message}`);
       process.exit(1);
     }
   }
 
-  if (xmlRoots.length > 0 && lcovRoots.length > 0) {
-    console.error("Mixing LCov and XML reports is not supported yet");
+  let coverage: BaseViolationReporter;
+  // With the per-report strategy every report is also evaluated on its own
+  let perReportCoverage: { [key: string]: BaseViolationReporter } | null = null;
+  try {
+    coverage = createCoverageReporter(reports, config, excludePatterns);
+    if (config.mergeStrategy === "per-report" && reports.length > 1) {
+      perReportCoverage = {};
+      for (const report of reports) {
+        perReportCoverage[report.file] = createCoverageReporter([report], config, excludePatterns);
+      }
+    }
+  } catch (e: any) {
+    console.error(
+      e instanceof CoverageFormatError ? e.message : `Error parsing coverage report: ${e.message}`,
+    );
     process.exit(1);
   }
 
-  let coverage;
+  let compareBranch: string;
   try {
-    if (xmlRoots.length > 0) {
-      coverage = new XmlCoverageReporter(xmlRoots, config.srcRoots, config.expandCoverageReport);
-    } else {
-      coverage = new LcovCoverageReporter(lcovRoots, config.srcRoots);
-    }
+    compareBranch = compareBranchFromConfig(config);
   } catch (e: any) {
-    console.error(`Error parsing coverage report: ${e.message}`);
+    console.error(e.message);
     process.exit(1);
   }
 
   const diffReporter = new GitDiffReporter(
-    config.compareBranch,
+    compareBranch,
     diffTool,
-    config.ignoreStaged,
-    config.ignoreUnstaged,
-    config.includeUntracked,
+    scope.ignoreStaged,
+    scope.ignoreUnstaged,
+    scope.includeUntracked,
     null, // supportedExtensions
     config.exclude,
     config.include,
+    config.ignoreMoved,
+    scope.head,
   );
 
   const reportFormats = config.format || {};
@@ -189,7 +513,12 @@ async function main() {
 
   if (reportFormats.json) {
     const jsonReportPath = reportFormats.json;
-    const reporter = new JsonReportGenerator(coverage, diffReporter, config.totalPercentFloat);
+    const reporter = new JsonReportGenerator(
+      coverage,
+      diffReporter,
+      config.totalPercentFloat,
+      perReportCoverage,
+    );
     const output = fs.createWriteStream(jsonReportPath);
     reporter.generateReport(output);
     output.end();
@@ -203,11 +532,68 @@ async function main() {
   );
   stringReporter.generateReport(process.stdout);
 
+  for (const warning of coverage.warnings()) {
+    console.warn(warning);
+  }
+  const changedSources = sourcePaths(diffReporter.srcPathsChanged(), sourceExtensions(config));
+  if (config.diagnosePaths) {
+    console.warn(
+      formatPathDiagnostics(diagnosePaths(changedSources, coverage, sourceExtensions(config))),
+    );
+  } else if (
+    changedSources.length > 0 &&
+    unmeasuredPaths(changedSources, coverage).length === changedSources.length
+  ) {
+    console.warn(
+      "None of the changed files were found in the coverage report, run with --diagnose-paths to see why",
+    );
+  }
+
   const percent = stringReporter.totalPercentCovered();
   if (percent < config.failUnder) {
     console.error(`Failure: Coverage (${percent}%) is below the threshold (${config.failUnder}%)`);
     process.exit(1);
   }
+
+  if (perReportCoverage) {
+    let failed = false;
+    for (const [file, reportCoverage] of Object.entries(perReportCoverage)) {
+      const reportPercent = new JsonReportGenerator(
+        reportCoverage,
+        diffReporter,
+        config.totalPercentFloat,
+      ).totalPercentCovered();
+      if (reportPercent < config.failUnder) {
+        console.error(
+          `Failure: Coverage of ${file} (${reportPercent}%) is below the threshold (${config.failUnder}%)`,
+        );
+        failed = true;
+      }
+    }
+    if (failed) {
+      process.exit(1);
+    }
+  }
+
+  const branchPercent = stringReporter.totalPercentBranchesCovered();
+  if (branchPercent !== null && branchPercent < config.failUnderBranches) {
+    console.error(
+      `Failure: Branch coverage (${branchPercent}%) is below the threshold (${config.failUnderBranches}%)`,
+    );
+    process.exit(1);
+  }
+
+  if (config.failOnUncalledFunctions) {
+    const uncalled = stringReporter
+      .srcPaths()
+      .flatMap((srcPath) =>
+        stringReporter.uncalledFunctions(srcPath).map((fn) => `${fn.name} (${srcPath}:${fn.line})`),
+      );
+    if (uncalled.length > 0) {
+      console.error(`Failure: New or modified functions were never called: ${uncalled.join(", ")}`);
+      process.exit(1);
+    }
+  }
 }
 
 main().catch((error) => {
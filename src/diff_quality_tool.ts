@@ -12,8 +12,12 @@ import {
   QualityDriver,
 } from "./violations_reporter";
 import { GitDiffReporter } from "./diff_reporter";
-import { GitDiffTool, GitDiffFileTool } from "./git_diff";
+import { DEFAULT_RENAME_THRESHOLD, GitDiffTool, GitDiffFileTool } from "./git_diff";
+import { checkQualityRange, compareBranchFromConfig, diffScopeFromConfig } from "./compare_branch";
 import { GitPathTool } from "./git_path";
+import { Snippet } from "./snippets";
+import { PathMapTool, parsePathMap } from "./path_map";
+import { checkStdinUsage, collectValues, readInputFile } from "./util";
 import {
   HtmlQualityReportGenerator,
   JsonReportGenerator,
@@ -42,14 +46,33 @@ async function main() {
     .description("Automatically find diff lines that need quality checks.")
     .version(VERSION);
 
-  program.argument("[reports...]", "Quality report files");
+  program.argument("[reports...]", "Quality report files (gzipped or '-' for standard input)");
 
   program
     .option("--violations <driver>", "Which code quality driver to use")
     .option("--html-report <file>", "Write HTML report to this file")
     .option("--json-report <file>", "Write JSON report to this file")
     .option("--external-css-file <filename>", "Write CSS into an external file")
-    .option("--compare-branch <branch>", "Branch to compare", "origin/main")
+    .option(
+      "--compare-branch <branch>",
+      "Branch to compare (default: origin/main), or 'auto' to detect it from CI variables, " +
+        "origin/HEAD, the upstream branch and the fallback branches",
+    )
+    .option(
+      "--compare-branch-fallback <branch>",
+      "Branch --compare-branch auto tries when nothing else is found (can be repeated)",
+      collectValues,
+    )
+    .option(
+      "--base <revision>",
+      "Start of an explicit commit range to diff instead of the compare branch, " +
+        "leaving out staged, unstaged and untracked changes",
+    )
+    .option(
+      "--head <revision>",
+      "End of an explicit commit range to diff instead of HEAD, " +
+        "leaving out staged, unstaged and untracked changes",
+    )
     .option(
       "--fail-under <score>",
       "Returns an error code if coverage or quality score is below this value",
@@ -61,6 +84,11 @@ async function main() {
     .option("--exclude <patterns...>", "Exclude files, more patterns supported")
     .option("--include <patterns...>", "Files to include (glob pattern)")
     .option("--options <options>", "Options to be passed to the quality driver")
+    .option(
+      "--path-map <from=to>",
+      "Rewrite the FROM path prefix in reports to TO, e.g. /app=. (can be repeated)",
+      collectValues,
+    )
     .option("--report-root-path <path>", "Root path for the report")
     .addOption(
       new Option("--diff-range-notation <range>", "Git diff range notation")
@@ -68,9 +96,19 @@ async function main() {
         .default("..."),
     )
     .option("--ignore-whitespace", "When getting a diff ignore any and all whitespace")
+    .option(
+      "--rename-threshold <percent>",
+      "Minimum similarity for git to detect a renamed file, whose unchanged lines " +
+        "are then left out of the diff",
+      parseFloat,
+    )
+    .option(
+      "--ignore-moved",
+      "Leave out added lines which were moved unchanged from elsewhere in the diff",
+    )
     .option("-q, --quiet", "Only print errors and failures")
     .option("-c, --config-file <file>", "The configuration file to use")
-    .option("--diff-file <file>", "The diff file to use")
+    .option("--diff-file <file>", "The diff file to use, '-' for standard input")
     .option(
       "--total-percent-float",
       "Show total coverage/quality as a float rounded to 2 decimal places",
@@ -84,6 +122,8 @@ async function main() {
     ignoreUnstaged: false,
     ignoreUntracked: false,
     ignoreWhitespace: false,
+    renameThreshold: DEFAULT_RENAME_THRESHOLD,
+    ignoreMoved: false,
     diffRangeNotation: "...",
     quiet: false,
     totalPercentFloat: false,
@@ -100,11 +140,28 @@ async function main() {
   // Initialize GitPathTool
   GitPathTool.setCwd(process.cwd());
 
+  try {
+    PathMapTool.setPathMap(parsePathMap(config.pathMap));
+    checkStdinUsage([config.diffFile, ...program.args]);
+  } catch (e: any) {
+    console.error(e.message);
+    process.exit(1);
+  }
+
   let diffTool;
   if (config.diffFile) {
     diffTool = new GitDiffFileTool(config.diffFile);
   } else {
-    diffTool = new GitDiffTool(config.diffRangeNotation, config.ignoreWhitespace);
+    try {
+      diffTool = new GitDiffTool(
+        config.diffRangeNotation,
+        config.ignoreWhitespace,
+        config.renameThreshold,
+      );
+    } catch (e: any) {
+      console.error(e.message);
+      process.exit(1);
+    }
   }
 
   // Select driver
@@ -135,7 +192,7 @@ async function main() {
     reports = [];
     for (const file of inputReports) {
       try {
-        reports.push(fs.readFileSync(file, "utf-8"));
+        reports.push(readInputFile(file));
       } catch (e: any) {
         console.error(`Could not read file ${file}: ${e.message}`);
         process.exit(1);
@@ -151,15 +208,35 @@ async function main() {
     process.exit(1);
   }
 
+  let compareBranch: string;
+  try {
+    compareBranch = compareBranchFromConfig(config);
+  } catch (e: any) {
+    console.error(e.message);
+    process.exit(1);
+  }
+
+  const scope = diffScopeFromConfig(config);
+  try {
+    checkQualityRange(scope, reports !== null);
+  } catch (e: any) {
+    console.error(e.message);
+    process.exit(1);
+  }
+  // Snippets show the sources the reports were made from
+  Snippet.setRevision(scope.sourceRevision);
+
   const diffReporter = new GitDiffReporter(
-    config.compareBranch,
+    compareBranch,
     diffTool,
-    config.ignoreStaged,
-    config.ignoreUnstaged,
-    config.includeUntracked,
+    scope.ignoreStaged,
+    scope.ignoreUnstaged,
+    scope.includeUntracked,
     driver.supportedExtensions,
     config.exclude,
     config.include,
+    config.ignoreMoved,
+    scope.head,
   );
 
   let reporter: BaseReportGenerator;
@@ -2,7 +2,22 @@ import fs from "fs";
 import path from "path";
 import { minimatch } from "minimatch";
 import { GitDiffTool, GitDiffError } from "./git_diff";
-import { toUnixPath } from "./util";
+import { findMovedLines, type AddedLine } from "./moved_lines";
+import { toUnescapedFilename, toUnixPath } from "./util";
+
+interface DiffSection {
+  lines: string[];
+  // Path of the file before it was renamed, null when it was not
+  renamedFrom: string | null;
+}
+
+interface FileDiff {
+  added: number[];
+  deleted: number[];
+  // Added lines left out because they were moved from elsewhere in the diff
+  moved: number[];
+  renamedFrom: string | null;
+}
 
 export abstract class BaseDiffReporter {
   protected _name: string;
@@ -22,6 +37,14 @@ export abstract class BaseDiffReporter {
     return this._name;
   }
 
+  /**
+   * Lines of a file left out of linesChanged() because they were moved
+   * unchanged from elsewhere in the diff.
+   */
+  movedLines(_srcPath: string): number[] {
+    return [];
+  }
+
   protected _fnmatch(
     filename: string,
     patterns: string[] | null,
@@ -70,7 +93,10 @@ export class GitDiffReporter extends BaseDiffReporter {
   private _ignoreUnstaged: boolean;
   private _includeUntracked: boolean;
   private _supportedExtensions: string[] | null;
+  private _ignoreMoved: boolean;
+  private _head: string;
   private _diffDict: { [key: string]: number[] } | null = null;
+  private _movedDict: { [key: string]: number[] } = {};
 
   constructor(
     compareBranch: string = "origin/main",
@@ -81,6 +107,8 @@ export class GitDiffReporter extends BaseDiffReporter {
     supportedExtensions: string[] | null = null,
     exclude: string[] | null = null,
     include: string[] | null = null,
+    ignoreMoved: boolean = false,
+    head: string = "HEAD",
   ) {
     const options: string[] = [];
     if (!ignoreStaged) options.push("staged");
@@ -88,7 +116,7 @@ export class GitDiffReporter extends BaseDiffReporter {
     if (includeUntracked) options.push("untracked");
 
     const rangeNotation = (gitDiff as any)?.rangeNotation || "...";
-    let name = `${compareBranch}${rangeNotation}HEAD`;
+    let name = `${compareBranch}${rangeNotation}${head}`;
 
     if (options.length > 0) {
       const prefix = options.slice(0, -1).join(", ");
@@ -108,10 +136,13 @@ export class GitDiffReporter extends BaseDiffReporter {
     this._ignoreUnstaged = ignoreUnstaged;
     this._includeUntracked = includeUntracked;
     this._supportedExtensions = supportedExtensions;
+    this._ignoreMoved = ignoreMoved;
+    this._head = head;
   }
 
   clearCache() {
     this._diffDict = null;
+    this._movedDict = {};
   }
 
   srcPathsChanged(): string[] {
@@ -135,6 +166,11 @@ export class GitDiffReporter extends BaseDiffReporter {
     return diffDict[toUnixPath(srcPath)] || [];
   }
 
+  override movedLines(srcPath: string): number[] {
+    this._gitDiff();
+    return this._movedDict[toUnixPath(srcPath)] || [];
+  }
+
   private static _getFileLines(p: string): number {
     try {
       const content = fs.readFileSync(p, "utf-8");
@@ -151,7 +187,7 @@ export class GitDiffReporter extends BaseDiffReporter {
   private _getIncludedDiffResults(): string[] {
     if (!this._gitDiffTool) return [];
 
-    const included: string[] = [this._gitDiffTool.diffCommitted(this._compareBranch)];
+    const included: string[] = [this._gitDiffTool.diffCommitted(this._compareBranch, this._head)];
     if (!this._ignoreStaged) {
       included.push(this._gitDiffTool.diffStaged());
     }
@@ -164,12 +200,22 @@ export class GitDiffReporter extends BaseDiffReporter {
   private _gitDiff(): { [key: string]: number[] } {
     if (this._diffDict === null) {
       const resultDict: { [key: string]: number[] } = {};
+      const movedDict: { [key: string]: number[] } = {};
 
       for (const diffStr of this._getIncludedDiffResults()) {
         const diffDict = this._parseDiffStr(diffStr);
 
-        for (const [srcPathRaw, [addedLines, deletedLines]] of Object.entries(diffDict)) {
+        for (const [srcPathRaw, fileDiff] of Object.entries(diffDict)) {
+          const { added: addedLines, deleted: deletedLines, moved, renamedFrom } = fileDiff;
           let srcPath = toUnixPath(srcPathRaw);
+
+          // Lines changed in an earlier diff move with the renamed file
+          const oldPath = renamedFrom === null ? null : toUnixPath(renamedFrom);
+          if (oldPath !== null && oldPath !== srcPath && resultDict[oldPath]) {
+            resultDict[srcPath] = [...(resultDict[srcPath] || []), ...resultDict[oldPath]!];
+            delete resultDict[oldPath];
+          }
+
           if (!this._validatePathToDiff(srcPath)) {
             continue;
           }
@@ -177,6 +223,9 @@ export class GitDiffReporter extends BaseDiffReporter {
           const existing = resultDict[srcPath] || [];
           const filtered = existing.filter((line) => !deletedLines.includes(line));
           resultDict[srcPath] = [...filtered, ...addedLines];
+          if (moved.length > 0) {
+            movedDict[srcPath] = [...(movedDict[srcPath] || []), ...moved];
+          }
         }
       }
 
@@ -184,6 +233,13 @@ export class GitDiffReporter extends BaseDiffReporter {
         resultDict[key] = this._uniqueOrderedLines(resultDict[key]!);
       }
 
+      // A moved line modified by a later diff counts as changed after all
+      this._movedDict = {};
+      for (const [key, lines] of Object.entries(movedDict)) {
+        const changed = new Set(resultDict[key] || []);
+        this._movedDict[key] = this._uniqueOrderedLines(lines.filter((line) => !changed.has(line)));
+      }
+
       this._diffDict = resultDict;
     }
     return this._diffDict;
@@ -204,21 +260,108 @@ export class GitDiffReporter extends BaseDiffReporter {
   private static SRC_FILE_RE = /^diff --git "?a\/.*"? "?b\/([^"\n]*)"?/;
   private static MERGE_CONFLICT_RE = /^diff --cc ([^\n]*)/;
   private static HUNK_LINE_RE = /\+([0-9]*)/;
-
-  private _parseDiffStr(diffStr: string): { [key: string]: [number[], number[]] } {
-    const diffDict: { [key: string]: [number[], number[]] } = {};
+  // Extended headers of renamed and copied files, which name both paths
+  // unambiguously, unlike the "diff --git" line
+  private static RENAME_FROM_RE = /^(?:rename|copy) from (.*)$/;
+  private static RENAME_TO_RE = /^(rename|copy) to (.*)$/;
+
+  /**
+   * Added and deleted lines per file, with the path a renamed file had
+   * before the rename.
+   */
+  private _parseDiffStr(diffStr: string): { [key: string]: FileDiff } {
+    const diffDict: { [key: string]: FileDiff } = {};
     const sectionsDict = this._parseSourceSections(diffStr);
-
-    for (const [srcPath, diffLines] of Object.entries(sectionsDict)) {
-      diffDict[srcPath] = this._parseLines(diffLines);
+    const moved = this._ignoreMoved ? this._movedLinesBySource(sectionsDict) : {};
+
+    for (const [srcPath, section] of Object.entries(sectionsDict)) {
+      const [addedLines, deletedLines] = this._parseLines(section.lines);
+      const movedLines = moved[srcPath] || new Set();
+      diffDict[srcPath] = {
+        added: addedLines.filter((line) => !movedLines.has(line)),
+        deleted: deletedLines,
+        moved: addedLines.filter((line) => movedLines.has(line)),
+        renamedFrom: section.renamedFrom,
+      };
     }
     return diffDict;
   }
 
-  private _parseSourceSections(diffStr: string): { [key: string]: string[] } {
-    const sourceDict: { [key: string]: string[] } = {};
+  /**
+   * Added lines of each file which were moved unchanged from another place
+   * in the same diff, possibly another file.
+   */
+  private _movedLinesBySource(sectionsDict: { [key: string]: DiffSection }): {
+    [key: string]: Set<number>;
+  } {
+    const addedRuns: AddedLine[][] = [];
+    const deletedRuns: string[][] = [];
+    const sources = new Map<AddedLine, string>();
+
+    for (const [srcPath, section] of Object.entries(sectionsDict)) {
+      const [fileAddedRuns, fileDeletedRuns] = this._parseLineRuns(section.lines);
+      for (const run of fileAddedRuns) {
+        for (const line of run) sources.set(line, srcPath);
+      }
+      addedRuns.push(...fileAddedRuns);
+      deletedRuns.push(...fileDeletedRuns);
+    }
+
+    const moved: { [key: string]: Set<number> } = {};
+    for (const line of findMovedLines(addedRuns, deletedRuns)) {
+      const srcPath = sources.get(line)!;
+      if (!moved[srcPath]) {
+        moved[srcPath] = new Set();
+      }
+      moved[srcPath]!.add(line.lineNo);
+    }
+    return moved;
+  }
+
+  /**
+   * Runs of consecutive added lines, with their numbers, and of consecutive
+   * deleted lines in the hunks of one file.
+   */
+  private _parseLineRuns(diffLines: string[]): [AddedLine[][], string[][]] {
+    const addedRuns: AddedLine[][] = [];
+    const deletedRuns: string[][] = [];
+    let addedRun: AddedLine[] = [];
+    let deletedRun: string[] = [];
+    let currentLineNew: number | null = null;
+
+    const endRuns = () => {
+      if (addedRun.length > 0) addedRuns.push(addedRun);
+      if (deletedRun.length > 0) deletedRuns.push(deletedRun);
+      addedRun = [];
+      deletedRun = [];
+    };
+
+    for (const line of diffLines) {
+      if (line.startsWith("@@")) {
+        endRuns();
+        currentLineNew = this._parseHunkLine(line);
+      } else if (line.startsWith("+")) {
+        if (currentLineNew !== null) {
+          addedRun.push({ lineNo: currentLineNew, text: line.slice(1) });
+          currentLineNew++;
+        }
+      } else if (line.startsWith("-")) {
+        deletedRun.push(line.slice(1));
+      } else if (!line.startsWith("\\")) {
+        // Context lines end the runs, "\ No newline at end of file" does not
+        endRuns();
+        if (currentLineNew !== null) currentLineNew++;
+      }
+    }
+    endRuns();
+    return [addedRuns, deletedRuns];
+  }
+
+  private _parseSourceSections(diffStr: string): { [key: string]: DiffSection } {
+    const sourceDict: { [key: string]: DiffSection } = {};
     let srcPath: string | null = null;
     let foundHunk = false;
+    let fromPath: string | null = null;
 
     const lines = diffStr.split(/\r\n|\r|\n/);
     for (let line of lines) {
@@ -227,13 +370,26 @@ export class GitDiffReporter extends BaseDiffReporter {
       if (line.startsWith("diff --git") || line.startsWith("diff --cc")) {
         srcPath = this._parseSourceLine(line);
         if (!sourceDict[srcPath]) {
-          sourceDict[srcPath] = [];
+          sourceDict[srcPath] = { lines: [], renamedFrom: null };
         }
         foundHunk = false;
+        fromPath = null;
+      } else if (!foundHunk && srcPath !== null && GitDiffReporter.RENAME_FROM_RE.test(line)) {
+        fromPath = toUnescapedFilename(line.match(GitDiffReporter.RENAME_FROM_RE)![1]!);
+      } else if (!foundHunk && srcPath !== null && GitDiffReporter.RENAME_TO_RE.test(line)) {
+        const [, kind, toPath] = line.match(GitDiffReporter.RENAME_TO_RE)!;
+        // Key the section on the new path given by the header
+        const newPath = toUnescapedFilename(toPath!);
+        if (newPath !== srcPath) {
+          if (sourceDict[srcPath]!.lines.length === 0) delete sourceDict[srcPath];
+          srcPath = newPath;
+          sourceDict[srcPath] = sourceDict[srcPath] || { lines: [], renamedFrom: null };
+        }
+        sourceDict[srcPath]!.renamedFrom = kind === "rename" ? fromPath : null;
       } else if (foundHunk || line.startsWith("@@")) {
         foundHunk = true;
         if (srcPath !== null) {
-          sourceDict[srcPath]!.push(line);
+          sourceDict[srcPath]!.lines.push(line);
         } else if (line.startsWith("@@")) {
           // Note: original raises GitDiffError, but sometimes output might be malformed?
           // Let's strict follow python
@@ -1,6 +1,5 @@
-import fs from "fs";
 import { execute, CommandError } from "./command_runner";
-import { toUnescapedFilename } from "./util";
+import { readInputFile, toUnescapedFilename } from "./util";
 
 export class GitDiffError extends Error {
   constructor(message: string) {
@@ -9,16 +8,40 @@ export class GitDiffError extends Error {
   }
 }
 
+/**
+ * Minimum similarity, in percent, for git to pair a deleted and an added file
+ * as a rename or copy. Same as git's own default.
+ */
+export const DEFAULT_RENAME_THRESHOLD = 50;
+
 export class GitDiffTool {
   private _untrackedCache: string[] | null = null;
   public rangeNotation: string;
   private _defaultGitArgs: string[];
   private _defaultDiffArgs: string[];
 
-  constructor(rangeNotation: string, ignoreWhitespace: boolean) {
+  constructor(
+    rangeNotation: string,
+    ignoreWhitespace: boolean,
+    renameThreshold: number = DEFAULT_RENAME_THRESHOLD,
+  ) {
+    if (!(renameThreshold >= 0 && renameThreshold <= 100)) {
+      throw new GitDiffError(
+        `Invalid rename threshold '${renameThreshold}', expected a percentage between 0 and 100`,
+      );
+    }
+
     this.rangeNotation = rangeNotation;
     this._defaultGitArgs = ["git", "-c", "diff.mnemonicprefix=no", "-c", "diff.noprefix=no"];
-    this._defaultDiffArgs = ["diff", "--no-color", "--no-ext-diff", "-U0"];
+    // Renamed files only show their modified lines. Copies are not looked
+    // for, a new file made of copied code is still new code to cover.
+    this._defaultDiffArgs = [
+      "diff",
+      "--no-color",
+      "--no-ext-diff",
+      "-U0",
+      `--find-renames=${renameThreshold}%`,
+    ];
 
     if (ignoreWhitespace) {
       this._defaultDiffArgs.push("--ignore-all-space");
@@ -26,13 +49,19 @@ export class GitDiffTool {
     }
   }
 
-  diffCommitted(compareBranch: string = "origin/main"): string {
-    const diffRange = `${compareBranch}${this.rangeNotation}HEAD`;
+  diffCommitted(compareBranch: string = "origin/main", head: string = "HEAD"): string {
+    const diffRange = `${compareBranch}${this.rangeNotation}${head}`;
     try {
       const command = [...this._defaultGitArgs, ...this._defaultDiffArgs, diffRange];
       return execute(command)[0];
     } catch (e: any) {
       if (e instanceof CommandError && e.message.includes("unknown revision")) {
+        if (head !== "HEAD") {
+          throw new Error(
+            `Could not find the commits of the range '${diffRange}'. ` +
+              `Do both '${compareBranch}' and '${head}' exist?`,
+          );
+        }
         throw new Error(
           `Could not find the branch to compare to. Does '${compareBranch}' exist?\n` +
             `the \`--compare-branch\` argument allows you to set a different branch.`,
@@ -80,9 +109,9 @@ export class GitDiffFileTool extends GitDiffTool {
     this.diffFilePath = diffFilePath;
   }
 
-  override diffCommitted(compareBranch: string = "origin/main"): string {
+  override diffCommitted(compareBranch: string = "origin/main", head: string = "HEAD"): string {
     try {
-      return fs.readFileSync(this.diffFilePath, "utf-8");
+      return readInputFile(this.diffFilePath);
     } catch {
       throw new Error(`Could not read the diff file. Make sure '${this.diffFilePath}' exists?`);
     }
@@ -0,0 +1,228 @@
+import * as path from "path";
+
+/**
+ * coverage.py's default exclusion, `# pragma: no cover`.
+ */
+export const DEFAULT_EXCLUDE_LINES = ["#\\s*(pragma|PRAGMA)[:\\s]?\\s*(no|NO)\\s*(cover|COVER)"];
+
+export class ExcludeLinesError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExcludeLinesError";
+  }
+}
+
+const IGNORE_NEXT_RE = /(?:\/\*|\/\/)\s*(?:istanbul|c8|v8)\s+ignore\s+next(?:\s+(\d+))?/;
+const IGNORE_START_RE = /(?:\/\*|\/\/)\s*(?:c8|v8)\s+ignore\s+start\b/;
+const IGNORE_STOP_RE = /(?:\/\*|\/\/)\s*(?:c8|v8)\s+ignore\s+stop\b/;
+const DIFF_COVER_IGNORE_RE = /(?:\/\*|\/\/|#|--)\s*diff-cover:\s*ignore\b/;
+
+const BLOCK_COMMENT_RE = /\/\*.*?\*\//g;
+
+interface CommentSyntax {
+  // A line comment, from its marker to the end of the line
+  lineComment: RegExp;
+  // Start of a line holding only a comment
+  commentStart: RegExp;
+}
+
+const SLASH_COMMENTS: CommentSyntax = {
+  lineComment: /\/\/.*$/,
+  commentStart: /^(\/\/|\/\*|\*)/,
+};
+const HASH_COMMENTS: CommentSyntax = { lineComment: /#.*$/, commentStart: /^#/ };
+const DASH_COMMENTS: CommentSyntax = {
+  lineComment: /--.*$/,
+  commentStart: /^(--|\/\*|\*)/,
+};
+
+const HASH_COMMENT_EXTENSIONS = new Set([
+  ".py",
+  ".pyx",
+  ".rb",
+  ".sh",
+  ".bash",
+  ".zsh",
+  ".pl",
+  ".pm",
+  ".r",
+  ".jl",
+  ".ex",
+  ".exs",
+  ".cr",
+  ".nim",
+  ".ps1",
+  ".coffee",
+]);
+const DASH_COMMENT_EXTENSIONS = new Set([".sql", ".lua", ".hs", ".elm"]);
+
+/**
+ * Comment syntax of a source file, by its extension. `#` and `--` are code in
+ * the C-like languages used for other files, as in `#private` or `i--`.
+ */
+function commentSyntax(srcPath: string | undefined): CommentSyntax {
+  const extension = path.extname(srcPath ?? "").toLowerCase();
+  if (HASH_COMMENT_EXTENSIONS.has(extension)) return HASH_COMMENTS;
+  if (DASH_COMMENT_EXTENSIONS.has(extension)) return DASH_COMMENTS;
+  return SLASH_COMMENTS;
+}
+
+/**
+ * Compiles `exclude_lines` patterns, added to the default pragma.
+ * Accepts a single pattern or a list, as read from the TOML config.
+ */
+export function parseExcludeLines(value: string | string[] | null | undefined): RegExp[] {
+  const patterns = [...DEFAULT_EXCLUDE_LINES];
+  if (typeof value === "string") {
+    patterns.push(value);
+  } else if (Array.isArray(value)) {
+    patterns.push(...value);
+  }
+
+  return patterns.map((pattern) => {
+    try {
+      return new RegExp(pattern);
+    } catch (e: any) {
+      throw new ExcludeLinesError(`Invalid exclude_lines pattern '${pattern}': ${e.message}`);
+    }
+  });
+}
+
+function stripComments(line: string, syntax: CommentSyntax): string {
+  return line.replace(BLOCK_COMMENT_RE, "").replace(syntax.lineComment, "").trim();
+}
+
+function isCodeLine(line: string, syntax: CommentSyntax): boolean {
+  const trimmed = line.trim();
+  return trimmed !== "" && !syntax.commentStart.test(trimmed);
+}
+
+function indentation(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Last line of the statement starting at `start`, following brackets so a
+ * function or an `if` block is ignored as a whole.
+ */
+function statementEnd(lines: string[], start: number, syntax: CommentSyntax): number {
+  let depth = 0;
+  for (let i = start; i < lines.length; i++) {
+    for (const char of stripComments(lines[i]!, syntax)) {
+      if (char === "{" || char === "(" || char === "[") depth++;
+      else if (char === "}" || char === ")" || char === "]") depth--;
+    }
+    // `} else {` keeps the statement going
+    if (depth <= 0 && !/^\s*(else|catch|finally)\b/.test(lines[i + 1] ?? "")) {
+      return i;
+    }
+  }
+  return lines.length - 1;
+}
+
+/**
+ * Last line of the indented block introduced by a line ending with ':'.
+ */
+function blockEnd(lines: string[], start: number): number {
+  const baseIndent = indentation(lines[start]!);
+  let end = start;
+  for (let i = start + 1; i < lines.length; i++) {
+    if (!lines[i]!.trim()) continue;
+    if (indentation(lines[i]!) <= baseIndent) break;
+    end = i;
+  }
+  return end;
+}
+
+/**
+ * Index of the line a "next" pragma at `index` applies to: the same line if
+ * code follows the comment, otherwise the next code line.
+ */
+function nextCodeLine(
+  lines: string[],
+  index: number,
+  match: RegExpMatchArray,
+  syntax: CommentSyntax,
+): number {
+  const rest = lines[index]!.slice(match.index! + match[0].length).replace(/^.*?\*\//, "");
+  if (stripComments(rest, syntax)) return index;
+
+  for (let i = index + 1; i < lines.length; i++) {
+    if (isCodeLine(lines[i]!, syntax)) return i;
+  }
+  return -1;
+}
+
+/**
+ * Lines (1-based) of a source file that coverage should not count:
+ * - `istanbul ignore next` and `c8`/`v8 ignore next` skip the next statement,
+ *   `c8 ignore next N` the next N lines.
+ * - `c8`/`v8 ignore start` ... `ignore stop` skip everything in between.
+ * - `diff-cover: ignore` skips its own line, or the next statement when the
+ *   comment stands on a line of its own.
+ * - Lines matching an exclude pattern are skipped, together with the
+ *   indented block they introduce when they end with ':'.
+ *
+ * `srcPath` picks the comment syntax, `//` unless its extension says otherwise.
+ */
+export function ignoredLines(
+  source: string,
+  excludePatterns: RegExp[],
+  srcPath?: string,
+): Set<number> {
+  const syntax = commentSyntax(srcPath);
+  const lines = source.split(/\r?\n/);
+  const ignored = new Set<number>();
+  const ignoreRange = (first: number, last: number) => {
+    for (let i = first; i <= last; i++) ignored.add(i + 1);
+  };
+
+  let rangeStart: number | null = null;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+
+    if (rangeStart !== null) {
+      if (IGNORE_STOP_RE.test(line)) {
+        ignoreRange(rangeStart, i);
+        rangeStart = null;
+      }
+      continue;
+    }
+    if (IGNORE_START_RE.test(line)) {
+      rangeStart = i;
+      continue;
+    }
+
+    const nextMatch = line.match(IGNORE_NEXT_RE);
+    if (nextMatch) {
+      if (nextMatch[1]) {
+        ignoreRange(i + 1, Math.min(i + Number(nextMatch[1]), lines.length - 1));
+      } else {
+        const target = nextCodeLine(lines, i, nextMatch, syntax);
+        if (target !== -1) ignoreRange(target, statementEnd(lines, target, syntax));
+      }
+      continue;
+    }
+
+    const diffCoverMatch = line.match(DIFF_COVER_IGNORE_RE);
+    if (diffCoverMatch) {
+      if (stripComments(line.slice(0, diffCoverMatch.index), syntax)) {
+        ignored.add(i + 1);
+      } else {
+        const target = nextCodeLine(lines, i, diffCoverMatch, syntax);
+        if (target !== -1) ignoreRange(target, statementEnd(lines, target, syntax));
+      }
+      continue;
+    }
+
+    if (excludePatterns.some((pattern) => pattern.test(line))) {
+      const code = line.replace(/#.*$/, "").trimEnd();
+      ignoreRange(i, code.endsWith(":") ? blockEnd(lines, i) : i);
+    }
+  }
+
+  // An unterminated range runs to the end of the file, as in c8
+  if (rangeStart !== null) ignoreRange(rangeStart, lines.length - 1);
+
+  return ignored;
+}
@@ -0,0 +1,72 @@
+/**
+ * Fewer alphanumeric characters than this and a block is not considered
+ * moved, as in git's --color-moved. Keeps lone braces and blank lines from
+ * matching by chance.
+ */
+export const MIN_MOVED_BLOCK_CHARS = 20;
+
+export interface AddedLine {
+  lineNo: number;
+  text: string;
+}
+
+function alphanumericCount(lines: AddedLine[]): number {
+  let count = 0;
+  for (const line of lines) {
+    count += line.text.replace(/[^A-Za-z0-9]/g, "").length;
+  }
+  return count;
+}
+
+/**
+ * Added lines which were moved unchanged from elsewhere in the diff. Runs are
+ * consecutive added or deleted lines, across all files of the diff. A block
+ * of added lines is moved when the same lines were deleted in the same order,
+ * following git's --color-moved heuristics. Lines are compared exactly, so
+ * re-indented code, e.g. wrapped in a new condition, is not moved.
+ */
+export function findMovedLines(addedRuns: AddedLine[][], deletedRuns: string[][]): Set<AddedLine> {
+  // Deleted lines in order, each run ended by a null
+  const deleted: (string | null)[] = [];
+  const deletedIndex = new Map<string, number[]>();
+  for (const run of deletedRuns) {
+    for (const text of run) {
+      const positions = deletedIndex.get(text);
+      if (positions) positions.push(deleted.length);
+      else deletedIndex.set(text, [deleted.length]);
+      deleted.push(text);
+    }
+    deleted.push(null);
+  }
+
+  const moved = new Set<AddedLine>();
+  const closeBlock = (block: AddedLine[]) => {
+    if (alphanumericCount(block) >= MIN_MOVED_BLOCK_CHARS) {
+      for (const line of block) moved.add(line);
+    }
+  };
+
+  for (const run of addedRuns) {
+    let block: AddedLine[] = [];
+    // Positions in `deleted` the current block may have been moved from
+    let candidates: number[] = [];
+
+    for (const line of run) {
+      const continued = candidates
+        .map((index) => index + 1)
+        .filter((index) => deleted[index] === line.text);
+
+      if (continued.length > 0) {
+        block.push(line);
+        candidates = continued;
+        continue;
+      }
+
+      closeBlock(block);
+      candidates = deletedIndex.get(line.text) || [];
+      block = candidates.length > 0 ? [line] : [];
+    }
+    closeBlock(block);
+  }
+  return moved;
+}
@@ -0,0 +1,136 @@
+import path from "path";
+import { BaseViolationReporter, DEFAULT_SOURCE_EXTENSIONS } from "./violations_reporter";
+import { toUnixPath } from "./util";
+
+const MAX_CANDIDATES = 3;
+
+export class PathDiagnostic {
+  constructor(
+    public srcPath: string,
+    // Report paths sharing the longest trailing path segments, best first
+    public candidates: string[],
+    public suggestion: string | null,
+  ) {}
+}
+
+function commonSuffixLength(a: string[], b: string[]): number {
+  let length = 0;
+  while (
+    length < a.length &&
+    length < b.length &&
+    a[a.length - 1 - length] === b[b.length - 1 - length]
+  ) {
+    length++;
+  }
+  return length;
+}
+
+/**
+ * Suggests the option which would make the report path match the diff path,
+ * given how many trailing segments they already share.
+ */
+function suggestFix(srcPath: string, reportPath: string, commonLength: number): string | null {
+  const srcSegments = srcPath.split("/");
+  const reportSegments = reportPath.split("/");
+  const srcPrefix = srcSegments.slice(0, srcSegments.length - commonLength).join("/");
+  const reportPrefix = reportSegments.slice(0, reportSegments.length - commonLength).join("/");
+
+  if (srcPrefix === reportPrefix) return null;
+  if (!reportPrefix) {
+    // e.g. JaCoCo reports paths relative to the package root
+    return `--src-roots ${srcPrefix}`;
+  }
+  return `--path-map ${reportPrefix}=${srcPrefix || "."}`;
+}
+
+/**
+ * The path as written in the report, which is what --path-map rewrites.
+ * Reporters make every path relative to the working directory, so absolute
+ * paths outside it, e.g. /app/src/a.ts from a container, come back climbing
+ * out of it.
+ */
+function rawReportPath(reportPath: string): string {
+  if (reportPath !== ".." && !reportPath.startsWith("../")) return reportPath;
+  return toUnixPath(path.resolve(reportPath));
+}
+
+/**
+ * The paths with one of the source extensions. Other changed files, such as
+ * README.md, are never in a coverage report.
+ */
+export function sourcePaths(
+  srcPaths: string[],
+  extensions: string[] = DEFAULT_SOURCE_EXTENSIONS,
+): string[] {
+  const sourceExtensions = new Set(extensions.map((ext) => ext.replace(/^\./, "").toLowerCase()));
+  return srcPaths.filter((srcPath) =>
+    sourceExtensions.has(path.extname(srcPath).slice(1).toLowerCase()),
+  );
+}
+
+/**
+ * The paths for which the report measured no lines at all.
+ */
+export function unmeasuredPaths(srcPaths: string[], reporter: BaseViolationReporter): string[] {
+  return srcPaths.filter((srcPath) => {
+    const measuredLines = reporter.measuredLines(srcPath);
+    return !measuredLines || measuredLines.length === 0;
+  });
+}
+
+/**
+ * Lists the changed source files for which the coverage report has no data,
+ * with the report paths that end the same way. These usually point at a
+ * report written with a different root, which --path-map or --src-roots can
+ * fix.
+ */
+export function diagnosePaths(
+  srcPaths: string[],
+  reporter: BaseViolationReporter,
+  extensions: string[] = DEFAULT_SOURCE_EXTENSIONS,
+): PathDiagnostic[] {
+  const reportedPaths = (reporter.reportedPaths() || []).map(toUnixPath).map(rawReportPath);
+  const diagnostics: PathDiagnostic[] = [];
+
+  for (const srcPath of unmeasuredPaths(sourcePaths(srcPaths, extensions), reporter)) {
+    const srcSegments = toUnixPath(srcPath).split("/");
+    const scored = reportedPaths
+      .map((reportPath): [string, number] => [
+        reportPath,
+        commonSuffixLength(reportPath.split("/"), srcSegments),
+      ])
+      .filter(([, commonLength]) => commonLength > 0)
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, MAX_CANDIDATES);
+
+    const best = scored[0];
+    diagnostics.push(
+      new PathDiagnostic(
+        srcPath,
+        scored.map(([reportPath]) => reportPath),
+        best ? suggestFix(toUnixPath(srcPath), best[0], best[1]) : null,
+      ),
+    );
+  }
+  return diagnostics;
+}
+
+export function formatPathDiagnostics(diagnostics: PathDiagnostic[]): string {
+  if (diagnostics.length === 0) {
+    return "Path diagnostics: every changed file has coverage data";
+  }
+
+  const lines = [`Path diagnostics: ${diagnostics.length} changed file(s) have no coverage data`];
+  for (const diagnostic of diagnostics) {
+    lines.push(`  ${diagnostic.srcPath}`);
+    if (diagnostic.candidates.length === 0) {
+      lines.push("    no report path ends with this file name");
+      continue;
+    }
+    lines.push(`    closest report paths: ${diagnostic.candidates.join(", ")}`);
+    if (diagnostic.suggestion) {
+      lines.push(`    try: ${diagnostic.suggestion}`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,62 @@
+import path from "path";
+import { toUnixPath } from "./util";
+
+export class PathMapError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PathMapError";
+  }
+}
+
+/**
+ * Parses `FROM=TO` mappings given on the command line, or in the config file
+ * as a list of such strings or a table of FROM = "TO" entries.
+ */
+export function parsePathMap(value: unknown): [string, string][] {
+  if (value === null || value === undefined) return [];
+
+  const entries: [string, string][] = [];
+  if (typeof value === "object" && !Array.isArray(value)) {
+    for (const [from, to] of Object.entries(value)) {
+      entries.push([from, String(to)]);
+    }
+  } else {
+    for (const mapping of Array.isArray(value) ? value : [value]) {
+      const separator = String(mapping).indexOf("=");
+      if (separator <= 0) {
+        throw new PathMapError(`Invalid path map '${mapping}', expected FROM=TO`);
+      }
+      entries.push([String(mapping).slice(0, separator), String(mapping).slice(separator + 1)]);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Rewrites path prefixes of reports produced on another machine, e.g. a
+ * report generated inside a Docker container under /app. Applied to every
+ * path read from a report before it is matched against the diff.
+ */
+export class PathMapTool {
+  private static _pathMap: [string, string][] = [];
+
+  static setPathMap(pathMap: [string, string][] | null) {
+    // Longest prefix first, so nested mappings win over their parents
+    this._pathMap = (pathMap || [])
+      .map(([from, to]): [string, string] => [toUnixPath(from).replace(/\/+$/, ""), toUnixPath(to)])
+      .sort((a, b) => b[0].length - a[0].length);
+  }
+
+  static apply(reportPath: string): string {
+    if (this._pathMap.length === 0) return reportPath;
+
+    const unixPath = toUnixPath(reportPath);
+    for (const [from, to] of this._pathMap) {
+      if (unixPath !== from && !unixPath.startsWith(`${from}/`)) continue;
+
+      const rest = unixPath.slice(from.length + 1);
+      return to ? path.posix.join(to, rest) : rest;
+    }
+    return reportPath;
+  }
+}
@@ -1,6 +1,11 @@
 import { Writable } from "stream";
 import nunjucks from "nunjucks";
-import { BaseViolationReporter, Violation } from "./violations_reporter";
+import {
+  BaseViolationReporter,
+  BranchCoverage,
+  FunctionCoverage,
+  Violation,
+} from "./violations_reporter";
 import { BaseDiffReporter } from "./diff_reporter";
 import { Snippet } from "./snippets";
 import { toUnixPath } from "./util";
@@ -10,8 +15,19 @@ class DiffViolations {
   lines: Set<number>;
   violations: Set<Violation>;
   measured_lines: Set<number>;
+  branches: BranchCoverage[];
+  partial_lines: Set<number>;
+  ignored_lines: Set<number>;
+  functions: FunctionCoverage[];
 
-  constructor(violations: Violation[], measured_lines: number[] | null, diff_lines: number[]) {
+  constructor(
+    violations: Violation[],
+    measured_lines: number[] | null,
+    diff_lines: number[],
+    branches: BranchCoverage[] | null = null,
+    ignored_lines: number[] | null = null,
+    functions: FunctionCoverage[] | null = null,
+  ) {
     const diffLinesSet = new Set(diff_lines);
 
     const violationLinesSet = new Set(violations.map((v) => v.line));
@@ -27,6 +43,22 @@ class DiffViolations {
       const measuredLinesSet = new Set(measured_lines);
       this.measured_lines = new Set([...measuredLinesSet].filter((x) => diffLinesSet.has(x)));
     }
+
+    this.branches = (branches || []).filter((b) => diffLinesSet.has(b.line));
+
+    // Lines which were executed but did not take every branch.
+    // Lines that were never executed are already reported as violations.
+    this.partial_lines = new Set(
+      this.branches
+        .filter((b) => b.covered < b.total && !this.lines.has(b.line))
+        .map((b) => b.line),
+    );
+
+    // Lines exempted by ignore pragmas, counted apart from the coverage
+    this.ignored_lines = new Set((ignored_lines || []).filter((x) => diffLinesSet.has(x)));
+
+    // Functions starting on a changed line, i.e. new or modified functions
+    this.functions = (functions || []).filter((f) => diffLinesSet.has(f.line));
   }
 }
 
@@ -110,19 +142,111 @@ export abstract class BaseReportGenerator {
     return total;
   }
 
+  totalNumIgnoredLines(): number {
+    let total = 0;
+    for (const summary of Object.values(this._diffViolations())) {
+      total += summary.ignored_lines.size;
+    }
+    return total;
+  }
+
   totalPercentCovered(): number {
     const totalLines = this.totalNumLines();
     if (totalLines > 0) {
       const numCovered = totalLines - this.totalNumViolations();
-      const totalPercent = (numCovered / totalLines) * 100;
-      if (this._total_percent_float) {
-        return Math.round(totalPercent * 100) / 100;
-      }
-      return Math.floor(totalPercent);
+      return this._roundPercent((numCovered / totalLines) * 100);
     }
     return this._total_percent_float ? 100.0 : 100;
   }
 
+  partialLines(srcPath: string): number[] {
+    const diffViolations = this._diffViolations()[srcPath];
+    if (!diffViolations) return [];
+    return [...diffViolations.partial_lines].sort((a, b) => a - b);
+  }
+
+  percentBranchesCovered(srcPath: string): number | null {
+    const diffViolations = this._diffViolations()[srcPath];
+    if (!diffViolations) return null;
+
+    let total = 0;
+    let covered = 0;
+    for (const branch of diffViolations.branches) {
+      total += branch.total;
+      covered += branch.covered;
+    }
+    if (total > 0) {
+      return (covered / total) * 100;
+    }
+    return null;
+  }
+
+  totalNumBranches(): number {
+    let total = 0;
+    for (const summary of Object.values(this._diffViolations())) {
+      for (const branch of summary.branches) {
+        total += branch.total;
+      }
+    }
+    return total;
+  }
+
+  totalNumCoveredBranches(): number {
+    let total = 0;
+    for (const summary of Object.values(this._diffViolations())) {
+      for (const branch of summary.branches) {
+        total += branch.covered;
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Percentage of branches taken on changed lines, or null if the
+   * coverage report has no branch data for the diff.
+   */
+  totalPercentBranchesCovered(): number | null {
+    const totalBranches = this.totalNumBranches();
+    if (totalBranches > 0) {
+      return this._roundPercent((this.totalNumCoveredBranches() / totalBranches) * 100);
+    }
+    return null;
+  }
+
+  /**
+   * New or modified functions of a file which were never called.
+   */
+  uncalledFunctions(srcPath: string): FunctionCoverage[] {
+    const diffViolations = this._diffViolations()[srcPath];
+    if (!diffViolations) return [];
+    return diffViolations.functions
+      .filter((f) => f.calls === 0)
+      .sort((a, b) => a.line - b.line || a.name.localeCompare(b.name));
+  }
+
+  totalNumFunctions(): number {
+    let total = 0;
+    for (const summary of Object.values(this._diffViolations())) {
+      total += summary.functions.length;
+    }
+    return total;
+  }
+
+  totalNumUncalledFunctions(): number {
+    let total = 0;
+    for (const srcPath of Object.keys(this._diffViolations())) {
+      total += this.uncalledFunctions(srcPath).length;
+    }
+    return total;
+  }
+
+  private _roundPercent(percent: number): number {
+    if (this._total_percent_float) {
+      return Math.round(percent * 100) / 100;
+    }
+    return Math.floor(percent);
+  }
+
   numChangedLines(): number {
     let total = 0;
     for (const srcPath of this._diff.srcPathsChanged()) {
@@ -131,6 +255,17 @@ export abstract class BaseReportGenerator {
     return total;
   }
 
+  /**
+   * Added lines left out of the diff because they were only moved.
+   */
+  totalNumMovedLines(): number {
+    let total = 0;
+    for (const srcPath of this._diff.srcPathsChanged()) {
+      total += this._diff.movedLines(srcPath).length;
+    }
+    return total;
+  }
+
   protected _diffViolations(): { [key: string]: DiffViolations } {
     if (!this._diff_violations_dict) {
       const srcPathsChanged = this._diff.srcPathsChanged();
@@ -147,6 +282,9 @@ export abstract class BaseReportGenerator {
             violationsBatch[srcPath] || [],
             this._violations.measuredLines(srcPath),
             this._diff.linesChanged(srcPath),
+            this._violations.branches(srcPath),
+            this._violations.ignoredLines(srcPath),
+            this._violations.functions(srcPath),
           );
         }
       } catch {
@@ -156,6 +294,9 @@ export abstract class BaseReportGenerator {
             this._violations.violations(srcPath),
             this._violations.measuredLines(srcPath),
             this._diff.linesChanged(srcPath),
+            this._violations.branches(srcPath),
+            this._violations.ignoredLines(srcPath),
+            this._violations.functions(srcPath),
           );
         }
       }
@@ -175,7 +316,14 @@ export abstract class BaseReportGenerator {
       total_num_lines: this.totalNumLines(),
       total_num_violations: this.totalNumViolations(),
       total_percent_covered: this.totalPercentCovered(),
+      total_num_ignored_lines: this.totalNumIgnoredLines(),
+      total_num_branches: this.totalNumBranches(),
+      total_num_covered_branches: this.totalNumCoveredBranches(),
+      total_percent_branches_covered: this.totalPercentBranchesCovered(),
+      total_num_functions: this.totalNumFunctions(),
+      total_num_uncalled_functions: this.totalNumUncalledFunctions(),
       num_changed_lines: this.numChangedLines(),
+      total_num_moved_lines: this.totalNumMovedLines(),
     };
   }
 
@@ -190,6 +338,13 @@ export abstract class BaseReportGenerator {
       violation_lines: violationLines,
       covered_lines: coveredLines,
       violations: violations.map((v) => [v.line, v.message]),
+      partial_lines: this.partialLines(srcPath),
+      ignored_lines: [...diffViolations.ignored_lines].sort((a, b) => a - b),
+      percent_branches_covered: this.percentBranchesCovered(srcPath),
+      uncalled_functions: this.uncalledFunctions(srcPath).map((f) => ({
+        name: f.name,
+        line: f.line,
+      })),
     };
   }
 }
@@ -223,6 +378,34 @@ TEMPLATE_ENV.addFilter("dictsort", function (obj: any) {
 });
 
 export class JsonReportGenerator extends BaseReportGenerator {
+  private _perReport: { [key: string]: BaseViolationReporter } | null;
+
+  constructor(
+    violationsReporter: BaseViolationReporter,
+    diffReporter: BaseDiffReporter,
+    totalPercentFloat: boolean = false,
+    perReport: { [key: string]: BaseViolationReporter } | null = null,
+  ) {
+    super(violationsReporter, diffReporter, totalPercentFloat);
+    this._perReport = perReport;
+  }
+
+  override reportDict(): any {
+    const report = super.reportDict();
+    if (this._perReport) {
+      // Breakdown of the diff coverage of every report on its own
+      report.per_report = {};
+      for (const [name, reporter] of Object.entries(this._perReport)) {
+        report.per_report[name] = new JsonReportGenerator(
+          reporter,
+          this._diff,
+          this._total_percent_float,
+        ).reportDict();
+      }
+    }
+    return report;
+  }
+
   generateReport(outputFile: Writable): void {
     const jsonReportStr = JSON.stringify(this.reportDict());
     outputFile.write(jsonReportStr);
@@ -333,6 +516,7 @@ export class TemplateReportGenerator extends BaseReportGenerator {
     stats.snippets_markdown = formattedSnippets.markdown;
     stats.snippets_terminal = formattedSnippets.terminal;
     stats.violation_lines = TemplateReportGenerator.combineAdjacentLines(stats.violation_lines);
+    stats.partial_lines = TemplateReportGenerator.combineAdjacentLines(stats.partial_lines);
 
     return stats;
   }
@@ -2,7 +2,9 @@ import * as fs from "fs";
 import * as path from "path";
 import jschardet from "jschardet";
 import hljs from "highlight.js";
+import { execute } from "./command_runner";
 import { GitPathTool } from "./git_path";
+import { toUnixPath } from "./util";
 
 export class Snippet {
   static VIOLATION_COLOR = "#ffcccc";
@@ -27,6 +29,9 @@ export class Snippet {
     md: "markdown",
   };
 
+  // Revision sources are read at, null for the working tree
+  private static _revision: string | null = null;
+
   private _srcFilename: string;
   private _startLine: number;
   private _lastLine: number;
@@ -163,8 +168,25 @@ export class Snippet {
     };
   }
 
+  /**
+   * Reads sources at the given revision instead of the working tree, so
+   * they match a diff which ends at that revision.
+   */
+  static setRevision(revision: string | null) {
+    this._revision = revision;
+  }
+
   static loadContents(srcPath: string): string {
     const relativePath = GitPathTool.relativePath(srcPath);
+    if (this._revision) {
+      try {
+        return execute(["git", "show", `${this._revision}:./${toUnixPath(relativePath)}`])[0];
+      } catch {
+        console.warn(`Could not read file ${srcPath} at ${this._revision}`);
+        return "";
+      }
+    }
+
     let buffer: Buffer;
     try {
       buffer = fs.readFileSync(relativePath);
@@ -0,0 +1,211 @@
+import fs from "fs";
+import path from "path";
+import { isJsonObject, toUnixPath } from "./util";
+
+const BASE64_CHARS = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+const SOURCE_MAPPING_URL_RE = /[#@]\s*sourceMappingURL=(\S+)\s*(?:\*\/)?\s*$/;
+
+export class SourceMapError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SourceMapError";
+  }
+}
+
+export class OriginalPosition {
+  constructor(
+    public source: string,
+    public line: number,
+  ) {}
+}
+
+/**
+ * Decodes one segment of a source map "mappings" field (base64 VLQ).
+ */
+export function decodeVlq(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of segment) {
+    const digit = BASE64_CHARS.indexOf(char);
+    if (digit === -1) {
+      throw new SourceMapError(`Invalid base64 VLQ character '${char}' in '${segment}'`);
+    }
+
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      const negative = value & 1;
+      value >>>= 1;
+      values.push(negative ? -value : value);
+      value = 0;
+      shift = 0;
+    }
+  }
+  return values;
+}
+
+/**
+ * Line-level view of a v3 source map: which original source lines every
+ * generated line was produced from.
+ */
+export class SourceMap {
+  // generated line (1-based) -> original positions
+  private _lines: Map<number, OriginalPosition[]> = new Map();
+
+  /**
+   * `mapName` names the map in errors, e.g. its path.
+   */
+  constructor(rawMap: unknown, mapDir: string, mapName = "source map") {
+    if (!isJsonObject(rawMap)) {
+      throw new SourceMapError(`Invalid ${mapName}: not a JSON object`);
+    }
+    if (rawMap.sections) {
+      throw new SourceMapError(
+        `Invalid ${mapName}: indexed source maps with sections are not supported`,
+      );
+    }
+
+    const { sourceRoot = "", sources = [], mappings = "" } = rawMap;
+    if (typeof sourceRoot !== "string" && sourceRoot !== null) {
+      throw new SourceMapError(`Invalid ${mapName}: "sourceRoot" is not a string`);
+    }
+    // Sources may be null when the original file is unknown
+    if (
+      !Array.isArray(sources) ||
+      !sources.every(
+        (source): source is string | null => typeof source === "string" || source === null,
+      )
+    ) {
+      throw new SourceMapError(`Invalid ${mapName}: "sources" is not a list of strings`);
+    }
+    if (typeof mappings !== "string") {
+      throw new SourceMapError(`Invalid ${mapName}: "mappings" is not a string`);
+    }
+
+    const resolved = sources.map((source) =>
+      source === null ? null : SourceMap._resolveSource(source, sourceRoot || "", mapDir),
+    );
+    this._parseMappings(mappings, resolved);
+  }
+
+  /**
+   * Loads the source map of a generated file, from an inline data URL, the
+   * file referenced by its sourceMappingURL comment or a sidecar `.map` file.
+   * Returns null if the file has no source map.
+   */
+  static forGeneratedFile(generatedPath: string): SourceMap | null {
+    let content: string;
+    try {
+      content = fs.readFileSync(generatedPath, "utf-8");
+    } catch {
+      return null;
+    }
+
+    const url = SourceMap._sourceMappingUrl(content);
+    const generatedDir = path.dirname(generatedPath);
+
+    if (url && url.startsWith("data:")) {
+      const commaIndex = url.indexOf(",");
+      const header = url.slice(0, commaIndex);
+      const data = url.slice(commaIndex + 1);
+      const json = header.endsWith(";base64")
+        ? Buffer.from(data, "base64").toString("utf-8")
+        : decodeURIComponent(data);
+      const mapName = `inline source map of ${generatedPath}`;
+      return new SourceMap(SourceMap._parseJson(json, mapName), generatedDir, mapName);
+    }
+
+    const candidates = url ? [path.resolve(generatedDir, url)] : [];
+    candidates.push(`${generatedPath}.map`);
+
+    for (const mapPath of candidates) {
+      if (fs.existsSync(mapPath)) {
+        const mapName = `source map ${mapPath}`;
+        const rawMap = SourceMap._parseJson(fs.readFileSync(mapPath, "utf-8"), mapName);
+        return new SourceMap(rawMap, path.dirname(mapPath), mapName);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Original positions for a generated line, or an empty list for lines
+   * which only exist in the generated output.
+   */
+  originalPositions(generatedLine: number): OriginalPosition[] {
+    return this._lines.get(generatedLine) || [];
+  }
+
+  private static _parseJson(json: string, mapName: string): unknown {
+    try {
+      return JSON.parse(json);
+    } catch (e: any) {
+      throw new SourceMapError(`Invalid ${mapName}: ${e.message}`);
+    }
+  }
+
+  private static _sourceMappingUrl(content: string): string | null {
+    // Only the last comment counts, earlier ones may belong to inlined modules
+    const lines = content.trimEnd().split(/\r?\n/);
+    for (let i = lines.length - 1; i >= 0 && i >= lines.length - 5; i--) {
+      const match = lines[i]!.match(SOURCE_MAPPING_URL_RE);
+      if (match) return match[1]!;
+    }
+    return null;
+  }
+
+  private static _resolveSource(source: string, sourceRoot: string, mapDir: string): string {
+    let sourcePath = sourceRoot ? `${sourceRoot.replace(/\/$/, "")}/${source}` : source;
+
+    if (sourcePath.startsWith("file://")) {
+      sourcePath = new URL(sourcePath).pathname;
+    } else {
+      // Bundler namespaces such as webpack://my-app/./src/index.ts
+      const schemeMatch = sourcePath.match(/^[a-z][a-z0-9+.-]*:\/\/[^/]*\/(.*)$/i);
+      if (schemeMatch) {
+        return toUnixPath(path.resolve(schemeMatch[1]!));
+      }
+    }
+    return toUnixPath(path.resolve(mapDir, sourcePath));
+  }
+
+  private _parseMappings(mappings: string, sources: (string | null)[]) {
+    // Source index and original line are relative to the previous segment.
+    // Columns and names are not needed for line coverage.
+    let sourceIndex = 0;
+    let originalLine = 0;
+
+    const generatedLines = mappings.split(";");
+    for (let i = 0; i < generatedLines.length; i++) {
+      const positions: OriginalPosition[] = [];
+
+      for (const segment of generatedLines[i]!.split(",")) {
+        if (!segment) continue;
+
+        const fields = decodeVlq(segment);
+        // One-field segments map generated code to no original source
+        if (fields.length < 4) continue;
+
+        sourceIndex += fields[1]!;
+        originalLine += fields[2]!;
+
+        const source = sources[sourceIndex];
+        if (source === undefined || source === null) continue;
+
+        // Source maps count lines from zero
+        const line = originalLine + 1;
+        if (!positions.some((p) => p.source === source && p.line === line)) {
+          positions.push(new OriginalPosition(source, line));
+        }
+      }
+
+      if (positions.length > 0) {
+        this._lines.set(i + 1, positions);
+      }
+    }
+  }
+}
@@ -1,4 +1,14 @@
+import fs from "fs";
 import path from "path";
+import zlib from "zlib";
+
+/**
+ * The file name which stands for standard input in report and diff arguments.
+ */
+export const STDIN_PATH = "-";
+
+// Every gzip stream starts with these two bytes
+const GZIP_MAGIC = [0x1f, 0x8b];
 
 export function toUnixPath(p: string): string {
   // Normalize the path and replace backslashes with forward slashes
@@ -8,10 +18,59 @@ export function toUnixPath(p: string): string {
   return normalized.replace(/\\/g, "/");
 }
 
+/**
+ * A JSON object of unknown shape, as found in reports and config files.
+ */
+export type JsonObject = { [key: string]: unknown };
+
+export function isJsonObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
 export function toUnixPaths(paths: string[]): string[] {
   return paths.map(toUnixPath);
 }
 
+/**
+ * Commander argument parser for options which may be given several times.
+ */
+export function collectValues(value: string, previous: string[] | undefined): string[] {
+  return [...(previous || []), value];
+}
+
+function isGzip(data: Buffer): boolean {
+  return data.length >= 2 && data[0] === GZIP_MAGIC[0] && data[1] === GZIP_MAGIC[1];
+}
+
+export function isCompressedPath(filePath: string): boolean {
+  return filePath.toLowerCase().endsWith(".gz");
+}
+
+/**
+ * Reads a report or diff given on the command line: `-` is read from
+ * standard input, `.gz` files are decompressed. Gzipped standard input is
+ * recognised by its magic bytes.
+ */
+export function readInputFile(filePath: string): string {
+  if (filePath === STDIN_PATH) {
+    const data = fs.readFileSync(0);
+    return (isGzip(data) ? zlib.gunzipSync(data) : data).toString("utf-8");
+  }
+  if (isCompressedPath(filePath)) {
+    return zlib.gunzipSync(fs.readFileSync(filePath)).toString("utf-8");
+  }
+  return fs.readFileSync(filePath, "utf-8");
+}
+
+/**
+ * Standard input can only be read once, so at most one argument may be `-`.
+ */
+export function checkStdinUsage(paths: (string | null | undefined)[]): void {
+  if (paths.filter((p) => p === STDIN_PATH).length > 1) {
+    throw new Error("Standard input ('-') can only be used for one report or diff file");
+  }
+}
+
 export function toUnescapedFilename(filename: string): string {
   if (!(filename.startsWith('"') && filename.endsWith('"'))) {
     return filename;
@@ -1,10 +1,16 @@
 import fs from "fs";
 import path from "path";
+import { fileURLToPath } from "url";
 import { DOMParser } from "@xmldom/xmldom";
 import xpath from "xpath";
 import { GitPathTool } from "./git_path";
-import { toUnixPath } from "./util";
+import { isJsonObject, toUnixPath } from "./util";
 import { execute, runCommandForCode } from "./command_runner";
+import { SourceMap } from "./source_map";
+import { Snippet } from "./snippets";
+import { PathMapTool } from "./path_map";
+import { scanXmlFile, scanXmlString, XmlStreamError, type XmlStreamHandler } from "./xml_stream";
+import { ignoredLines } from "./ignore_pragmas";
 
 export class Violation {
   constructor(
@@ -13,6 +19,23 @@ export class Violation {
   ) {}
 }
 
+export class BranchCoverage {
+  constructor(
+    public line: number,
+    public covered: number,
+    public total: number,
+  ) {}
+}
+
+export class FunctionCoverage {
+  constructor(
+    public name: string,
+    // Line the function starts on
+    public line: number,
+    public calls: number,
+  ) {}
+}
+
 export abstract class BaseViolationReporter {
   constructor(protected _name: string) {}
 
@@ -30,34 +53,263 @@ export abstract class BaseViolationReporter {
     return null;
   }
 
+  /**
+   * Branch coverage per line, or null when the report carries no branch data.
+   */
+  branches(_srcPath: string): BranchCoverage[] | null {
+    return null;
+  }
+
+  /**
+   * Functions with their call counts, or null when the report carries no
+   * function data.
+   */
+  functions(_srcPath: string): FunctionCoverage[] | null {
+    return null;
+  }
+
+  /**
+   * Source paths present in the report, or null if the reporter cannot list them.
+   */
+  reportedPaths(): string[] | null {
+    return null;
+  }
+
+  /**
+   * Measured lines exempted from coverage by ignore pragmas, or null when
+   * the reporter does not look for them.
+   */
+  ignoredLines(_srcPath: string): number[] | null {
+    return null;
+  }
+
+  /**
+   * Problems met while reading the reports which did not stop them from being
+   * used, for diff-cover to print after the report.
+   */
+  warnings(): string[] {
+    return [];
+  }
+
   name(): string {
     return this._name;
   }
 }
 
+/**
+ * How line hits from several coverage reports are combined:
+ * - "union": a line is covered when any report which measured it covers it.
+ * - "intersection": a line is covered only when every report which measured
+ *   it covers it.
+ * - "per-report": merged like "union", while each report is also evaluated
+ *   on its own by diff-cover.
+ */
+export type MergeStrategy = "union" | "intersection" | "per-report";
+
+export const MERGE_STRATEGIES: MergeStrategy[] = ["union", "intersection", "per-report"];
+
+/**
+ * Merges the [line, hits] pairs of several reports into violations and
+ * measured lines according to the merge strategy.
+ */
+function mergeLineHits(
+  reportsLineHits: [number, number][][],
+  mergeStrategy: MergeStrategy,
+): [Violation[], Set<number>] {
+  const measured = new Set<number>();
+  // line -> [number of reports measuring it, number of reports covering it]
+  const lineCounts = new Map<number, [number, number]>();
+
+  for (const lineHits of reportsLineHits) {
+    const reportHits = new Map<number, number>();
+    for (const [lineNo, hits] of lineHits) {
+      reportHits.set(lineNo, (reportHits.get(lineNo) || 0) + hits);
+    }
+
+    for (const [lineNo, hits] of reportHits) {
+      measured.add(lineNo);
+      const [measuredBy, coveredBy] = lineCounts.get(lineNo) || [0, 0];
+      lineCounts.set(lineNo, [measuredBy + 1, coveredBy + (hits > 0 ? 1 : 0)]);
+    }
+  }
+
+  const violations: Violation[] = [];
+  for (const [lineNo, [measuredBy, coveredBy]] of lineCounts) {
+    const uncovered = mergeStrategy === "intersection" ? coveredBy < measuredBy : coveredBy === 0;
+    if (uncovered) {
+      violations.push(new Violation(lineNo, null));
+    }
+  }
+  return [violations, measured];
+}
+
+/**
+ * Merges the functions of several reports, told apart by name and start line,
+ * according to the merge strategy: with "intersection" a function counts as
+ * called only when every report which has it saw it called. Returns null
+ * when none of the reports has function data.
+ */
+function mergeFunctionCalls(
+  reportsFunctions: (FunctionCoverage[] | null | undefined)[],
+  mergeStrategy: MergeStrategy,
+): FunctionCoverage[] | null {
+  let merged: Map<string, FunctionCoverage> | null = null;
+  for (const functions of reportsFunctions) {
+    if (!functions) continue;
+
+    merged = merged || new Map();
+    for (const fn of functions) {
+      const key = `${fn.line}:${fn.name}`;
+      const existing = merged.get(key);
+      if (!existing) {
+        merged.set(key, new FunctionCoverage(fn.name, fn.line, fn.calls));
+      } else if (mergeStrategy === "intersection" && (existing.calls === 0 || fn.calls === 0)) {
+        existing.calls = 0;
+      } else {
+        existing.calls += fn.calls;
+      }
+    }
+  }
+  return merged ? Array.from(merged.values()) : null;
+}
+
+/**
+ * Adds the lines between the first and last reported line which are missing
+ * from a coverage report, using the hit count of the closest reported line
+ * before them. Mirrors diff_cover's --expand-coverage-report.
+ */
+function expandLineHits(lineHits: [number, number][]): [number, number][] {
+  if (lineHits.length === 0) return lineHits;
+
+  const reported = new Map<number, number>();
+  for (const [lineNo, hits] of lineHits) {
+    reported.set(lineNo, hits);
+  }
+
+  const lineNumbers = [...reported.keys()];
+  const first = Math.min(...lineNumbers);
+  const last = Math.max(...lineNumbers);
+
+  const expanded = [...lineHits];
+  let lastHits = 0;
+  for (let lineNo = first; lineNo < last; lineNo++) {
+    const hits = reported.get(lineNo);
+    if (hits !== undefined) {
+      lastHits = hits;
+    } else {
+      // This is an unreported line, add it with the previous line's hits
+      expanded.push([lineNo, lastHits]);
+    }
+  }
+  return expanded;
+}
+
+/**
+ * Cobertura marks lines with conditionals as branch="true" and records
+ * condition-coverage="50% (1/2)".
+ */
+function coberturaBranchCoverage(line: XmlAttributes): [number, number] | null {
+  if (line["branch"] !== "true") return null;
+
+  const match = (line["condition-coverage"] || "").match(/\((\d+)\/(\d+)\)/);
+  if (!match) return null;
+  return [parseInt(match[1]!, 10), parseInt(match[2]!, 10)];
+}
+
+/**
+ * Clover "cond" lines count how often the condition evaluated to true and
+ * to false, so each of them is one of two branches.
+ */
+function cloverBranchCoverage(line: XmlAttributes): [number, number] | null {
+  if (line["type"] !== "cond") return null;
+
+  const trueCount = parseInt(line["truecount"] || "0", 10);
+  const falseCount = parseInt(line["falsecount"] || "0", 10);
+  return [(trueCount > 0 ? 1 : 0) + (falseCount > 0 ? 1 : 0), 2];
+}
+
+/**
+ * JaCoCo records missed (mb) and covered (cb) branches per line.
+ */
+function jacocoBranchCoverage(line: XmlAttributes): [number, number] | null {
+  const missed = parseInt(line["mb"] || "0", 10);
+  const covered = parseInt(line["cb"] || "0", 10);
+  if (missed + covered === 0) return null;
+  return [covered, missed + covered];
+}
+
+type XmlAttributes = { [key: string]: string };
+
+export type XmlDialect = "cobertura" | "clover" | "jacoco";
+
+const XML_DIALECTS: {
+  [key in XmlDialect]: {
+    numberAttr: string;
+    hitsAttr: string;
+    getBranchCoverage: (line: XmlAttributes) => [number, number] | null;
+  };
+} = {
+  cobertura: { numberAttr: "number", hitsAttr: "hits", getBranchCoverage: coberturaBranchCoverage },
+  clover: { numberAttr: "num", hitsAttr: "count", getBranchCoverage: cloverBranchCoverage },
+  jacoco: { numberAttr: "nr", hitsAttr: "ci", getBranchCoverage: jacocoBranchCoverage },
+};
+
+// Without a known format the root element tells the dialects apart:
+// <coverage clover="..."> for Clover and <report> for JaCoCo
+function xmlDialect(rootName: string, rootAttributes: XmlAttributes): XmlDialect {
+  if ("clover" in rootAttributes) return "clover";
+  if (rootName === "report") return "jacoco";
+  return "cobertura";
+}
+
+/**
+ * Reads Cobertura, Clover and JaCoCo XML reports. Reports are streamed rather
+ * than parsed into a DOM, and only the lines of the requested source files are
+ * kept, so reports of any size can be read in a single pass per batch of files.
+ */
 export class XmlCoverageReporter extends BaseViolationReporter {
-  private _xmlRoots: Document[];
+  // One scanner per report, streaming it through a handler
+  private _xmlSources: ((handler: XmlStreamHandler) => void)[];
   private _srcRoots: string[];
   private _expandCoverageReport: boolean;
+  private _mergeStrategy: MergeStrategy;
+  // Null to tell the dialect of each report from its root element
+  private _dialect: XmlDialect | null;
   // Cache: srcPath -> [Violations, MeasuredLines]
-  // Violations is Set of Violation (we use array here and dedupe logic)
-  // MeasuredLines is Set of number
   private _infoCache: { [key: string]: [Violation[], Set<number>] } = {};
-  // xmlCache: index -> { filename: Element[] }
-  private _xmlCache: ({ [key: string]: Element[] } | undefined)[];
+  // Branch cache: srcPath -> line -> BranchCoverage
+  private _branchCache: { [key: string]: Map<number, BranchCoverage> } = {};
+  private _reportedPaths: string[] | null = null;
 
   constructor(
     xmlContentList: string[],
     srcRoots: string[] | null = null,
     expandCoverageReport: boolean = false,
+    mergeStrategy: MergeStrategy = "union",
+    xmlFiles: string[] = [],
+    dialect: XmlDialect | null = null,
   ) {
     super("XML");
-    this._xmlRoots = xmlContentList.map((content) =>
-      new DOMParser().parseFromString(content, "text/xml"),
-    );
+    this._dialect = dialect;
+    this._xmlSources = [
+      ...xmlContentList.map(
+        (content) => (handler: XmlStreamHandler) => scanXmlString(content, handler),
+      ),
+      ...xmlFiles.map((file) => (handler: XmlStreamHandler) => {
+        try {
+          scanXmlFile(file, handler);
+        } catch (e: any) {
+          // Files are only read once the diff is known, name the culprit
+          if (!(e instanceof XmlStreamError)) throw e;
+          throw new XmlStreamError(
+            `Could not parse ${file} as a ${dialect || "XML"} coverage report: ${e.message}`,
+          );
+        }
+      }),
+    ];
     this._srcRoots = srcRoots || [""];
     this._expandCoverageReport = expandCoverageReport;
-    this._xmlCache = Array.from({ length: this._xmlRoots.length });
+    this._mergeStrategy = mergeStrategy;
   }
 
   private _normalizePath(p: string): string {
@@ -68,90 +320,6 @@ export class XmlCoverageReporter extends BaseViolationReporter {
     return unixPath;
   }
 
-  private _getXmlClasses(xmlDocument: Document): { [key: string]: Element[] } {
-    // sources = xml_document.findall("sources/source")
-    const sourcesNodes = xpath.select("//sources/source", xmlDocument) as Element[];
-    const sources = sourcesNodes.map((node) => node.textContent || "").filter((t) => t);
-
-    // classes = xml_document.findall(".//class")
-    const classes = xpath.select("//class", xmlDocument) as Element[];
-
-    const res: { [key: string]: Element[] } = {};
-
-    for (const clazz of classes) {
-      const f = clazz.getAttribute("filename");
-      if (!f) continue;
-
-      const unixF = this._normalizePath(f);
-      if (!res[unixF]) res[unixF] = [];
-      res[unixF].push(clazz);
-
-      for (const source of sources) {
-        const absF = this._normalizePath(path.join(source.trim(), f));
-        if (!res[absF]) res[absF] = [];
-        res[absF].push(clazz);
-      }
-    }
-    return res;
-  }
-
-  private _getClasses(index: number, xmlDocument: Document, srcPath: string): Element[] {
-    const srcRelPath = this._normalizePath(GitPathTool.relativePath(srcPath));
-    const srcAbsPath = this._normalizePath(GitPathTool.absolutePath(srcPath));
-
-    if (!this._xmlCache[index]) {
-      this._xmlCache[index] = this._getXmlClasses(xmlDocument);
-    }
-    const cache = this._xmlCache[index];
-    if (!cache) return [];
-
-    return cache[srcAbsPath] || cache[srcRelPath] || [];
-  }
-
-  private _getSrcPathLineNodesCobertura(
-    index: number,
-    xmlDocument: Document,
-    srcPath: string,
-  ): Element[] | null {
-    const classes = this._getClasses(index, xmlDocument, srcPath);
-    if (!classes || classes.length === 0) return null;
-
-    const lines: Element[] = [];
-    for (const clazz of classes) {
-      // clazz.findall("./lines/line")
-      // xpath relative to clazz
-      const nodes = xpath.select("./lines/line", clazz) as Element[];
-      lines.push(...nodes);
-    }
-    return lines;
-  }
-
-  private static _getSrcPathLineNodesClover(
-    xmlDocument: Document,
-    srcPath: string,
-  ): Element[] | null {
-    // files = xml_document.findall(".//file")
-    const allFiles = xpath.select("//file", xmlDocument) as Element[];
-
-    const files = allFiles.filter((fileTree) => {
-      const p = fileTree.getAttribute("path");
-      return p && GitPathTool.relativePath(p) === srcPath;
-    });
-
-    if (files.length === 0) return null;
-
-    const lines: Element[] = [];
-    for (const fileTree of files) {
-      // file_tree.findall('./line[@type="stmt"]')
-      const stmts = xpath.select('./line[@type="stmt"]', fileTree) as Element[];
-      lines.push(...stmts);
-      // file_tree.findall('./line[@type="cond"]')
-      const conds = xpath.select('./line[@type="cond"]', fileTree) as Element[];
-      lines.push(...conds);
-    }
-    return lines;
-  }
-
   private _measuredSourcePathMatches(
     packageName: string,
     fileName: string,
@@ -159,13 +327,11 @@ export class XmlCoverageReporter extends BaseViolationReporter {
   ): boolean {
     if (!srcPath.endsWith(toUnixPath(fileName))) return false;
 
-    // normcase is effectively lowercase on windows, same on unix usually for comparison?
-    // JS doesn't have normcase. path.normalize + toLowerCase if windows?
-    // Let's assume toLowerCase for comparison is safer.
+    // Compare case-insensitively, like os.path.normcase on Windows
     const normSrcPath = srcPath.toLowerCase();
 
     for (const root of this._srcRoots) {
-      const joined = path.join(root, packageName, fileName);
+      const joined = PathMapTool.apply(path.join(root, packageName, fileName));
       const rel = GitPathTool.relativePath(joined);
       if (rel.toLowerCase() === normSrcPath) {
         return true;
@@ -174,143 +340,292 @@ export class XmlCoverageReporter extends BaseViolationReporter {
     return false;
   }
 
-  private _getSrcPathLineNodesJacoco(xmlDocument: Document, srcPath: string): Element[] | null {
-    // packages = xml_document.findall(".//package")
-    const packages = xpath.select("//package", xmlDocument) as Element[];
-
-    const files: Element[] = [];
-    for (const pkg of packages) {
-      const pkgName = pkg.getAttribute("name") || "";
-      // pkg.findall("sourcefile")
-      const sourceFiles = xpath.select("./sourcefile", pkg) as Element[];
+  /**
+   * Streams one report, collecting the line elements of the given source
+   * files. Files the report does not mention are left out of the result.
+   */
+  private _scanReport(
+    xmlSource: (handler: XmlStreamHandler) => void,
+    srcPaths: string[],
+  ): [XmlDialect, { [key: string]: XmlAttributes[] }] {
+    // Cobertura: normalized path -> source files, absolute matches win
+    const byAbsPath = new Map<string, string[]>();
+    const byRelPath = new Map<string, string[]>();
+    // Clover matches the requested paths directly
+    const wanted = new Set(srcPaths);
+    for (const srcPath of srcPaths) {
+      const absPath = this._normalizePath(GitPathTool.absolutePath(srcPath));
+      const relPath = this._normalizePath(GitPathTool.relativePath(srcPath));
+      byAbsPath.set(absPath, [...(byAbsPath.get(absPath) || []), srcPath]);
+      byRelPath.set(relPath, [...(byRelPath.get(relPath) || []), srcPath]);
+    }
 
-      for (const sf of sourceFiles) {
-        const sfName = sf.getAttribute("name") || "";
-        if (this._measuredSourcePathMatches(pkgName, sfName, srcPath)) {
-          files.push(sf);
+    const absLines: { [key: string]: XmlAttributes[] } = {};
+    const relLines: { [key: string]: XmlAttributes[] } = {};
+    let dialect: XmlDialect = "cobertura";
+    const stack: string[] = [];
+    const sources: string[] = [];
+    let sourceText: string | null = null;
+    let packageName = "";
+    // Where the lines of the current class/file/sourcefile element go
+    let targets: XmlAttributes[][] = [];
+
+    const collectInto = (lines: { [key: string]: XmlAttributes[] }, srcPath: string) => {
+      if (!lines[srcPath]) lines[srcPath] = [];
+      targets.push(lines[srcPath]!);
+    };
+
+    xmlSource({
+      openTag: (name, attributes) => {
+        const parent = stack[stack.length - 1];
+        stack.push(name);
+        if (stack.length === 1) {
+          dialect = this._dialect || xmlDialect(name, attributes);
+          return;
         }
-      }
-    }
 
-    if (files.length === 0) return null;
+        if (dialect === "cobertura") {
+          if (name === "source" && parent === "sources") {
+            sourceText = "";
+          } else if (name === "class" && attributes["filename"]) {
+            const f = attributes["filename"];
+            const candidates = [
+              this._normalizePath(PathMapTool.apply(f)),
+              ...sources.map((source) =>
+                this._normalizePath(PathMapTool.apply(path.join(source.trim(), f))),
+              ),
+            ];
+            targets = [];
+            for (const candidate of candidates) {
+              for (const srcPath of byAbsPath.get(candidate) || []) collectInto(absLines, srcPath);
+              for (const srcPath of byRelPath.get(candidate) || []) collectInto(relLines, srcPath);
+            }
+          } else if (name === "line" && parent === "lines" && stack[stack.length - 3] === "class") {
+            for (const lines of targets) lines.push(attributes);
+          }
+        } else if (dialect === "clover") {
+          if (name === "file") {
+            targets = [];
+            const srcPath =
+              attributes["path"] && GitPathTool.relativePath(PathMapTool.apply(attributes["path"]));
+            if (srcPath && wanted.has(srcPath)) {
+              collectInto(absLines, srcPath);
+            }
+          } else if (
+            name === "line" &&
+            parent === "file" &&
+            (attributes["type"] === "stmt" || attributes["type"] === "cond")
+          ) {
+            for (const lines of targets) lines.push(attributes);
+          }
+        } else {
+          if (name === "package") {
+            packageName = attributes["name"] || "";
+          } else if (name === "sourcefile" && parent === "package") {
+            targets = [];
+            const sfName = attributes["name"] || "";
+            for (const srcPath of srcPaths) {
+              if (this._measuredSourcePathMatches(packageName, sfName, srcPath)) {
+                collectInto(absLines, srcPath);
+              }
+            }
+          } else if (name === "line" && parent === "sourcefile") {
+            for (const lines of targets) lines.push(attributes);
+          }
+        }
+      },
+      closeTag: (name) => {
+        stack.pop();
+        if (name === "source" && sourceText !== null) {
+          if (sourceText) sources.push(sourceText);
+          sourceText = null;
+        } else if (name === "class" || name === "file" || name === "sourcefile") {
+          targets = [];
+        }
+      },
+      text: (text) => {
+        if (sourceText !== null) sourceText += text;
+      },
+    });
 
-    const lines: Element[] = [];
-    for (const fileTree of files) {
-      const nodes = xpath.select("./line", fileTree) as Element[];
-      lines.push(...nodes);
+    // A file matched by its absolute path ignores classes matched relatively
+    const lines: { [key: string]: XmlAttributes[] } = {};
+    for (const srcPath of srcPaths) {
+      const fileLines = absLines[srcPath] || relLines[srcPath];
+      if (fileLines) lines[srcPath] = fileLines;
     }
-    return lines;
+    return [dialect, lines];
   }
 
-  private _cacheFile(srcPath: string) {
-    if (this._infoCache[srcPath]) return;
-
-    let violations: Violation[] | null = null;
-    let measured = new Set<number>();
-
-    for (let i = 0; i < this._xmlRoots.length; i++) {
-      const xmlDocument = this._xmlRoots[i]!;
-
-      let lineNodes: Element[] | null = null;
-      let numberAttr = "number";
-      let hitsAttr = "hits";
-
-      // Check type
-      // xml_document.findall(".[@clover]") -> check root attributes?
-      // xpath.select("/*[@clover]", xmlDocument)
-      const root = xmlDocument.documentElement;
-      if (root.hasAttribute("clover")) {
-        lineNodes = XmlCoverageReporter._getSrcPathLineNodesClover(xmlDocument, srcPath);
-        numberAttr = "num";
-        hitsAttr = "count";
-      } else if (root.hasAttribute("name")) {
-        // Jacoco has name attribute on root report?
-        // DTD says report has name.
-        lineNodes = this._getSrcPathLineNodesJacoco(xmlDocument, srcPath);
-        numberAttr = "nr";
-        hitsAttr = "ci";
-      } else {
-        lineNodes = this._getSrcPathLineNodesCobertura(i, xmlDocument, srcPath);
-        numberAttr = "number";
-        hitsAttr = "hits";
-      }
+  private _cacheFiles(srcPaths: string[]) {
+    const uncached = [...new Set(srcPaths)].filter((srcPath) => !this._infoCache[srcPath]);
+    if (uncached.length === 0) return;
 
-      if (!lineNodes) continue;
-
-      if (this._expandCoverageReport) {
-        // ... (implementation of expand coverage report logic)
-        // Skip for brevity unless critical
-      }
+    const reportsLineHits: { [key: string]: [number, number][][] } = {};
+    const branches: { [key: string]: Map<number, BranchCoverage> } = {};
+    for (const srcPath of uncached) {
+      reportsLineHits[srcPath] = [];
+      branches[srcPath] = new Map();
+    }
 
-      // violations logic
-      const currentViolations: Violation[] = [];
-      const currentMeasured: number[] = [];
+    for (const xmlSource of this._xmlSources) {
+      const [dialect, reportLines] = this._scanReport(xmlSource, uncached);
+      const { numberAttr, hitsAttr, getBranchCoverage } = XML_DIALECTS[dialect];
 
-      for (const line of lineNodes) {
-        const num = parseInt(line.getAttribute(numberAttr) || "0", 10);
-        const hits = parseInt(line.getAttribute(hitsAttr) || "0", 10);
+      for (const [srcPath, lineNodes] of Object.entries(reportLines)) {
+        let lineHits: [number, number][] = [];
 
-        if (hits === 0) {
-          currentViolations.push(new Violation(num, null));
+        for (const line of lineNodes) {
+          const num = parseInt(line[numberAttr] || "0", 10);
+          const branchCoverage = getBranchCoverage(line);
+          let hits = parseInt(line[hitsAttr] || "0", 10);
+          if (!(hitsAttr in line) && branchCoverage) {
+            // Clover "cond" lines may only carry truecount/falsecount
+            hits = branchCoverage[0];
+          }
+          lineHits.push([num, hits]);
+
+          if (branchCoverage) {
+            // Reports cannot tell which branches match up, so keep the best one
+            const [covered, total] = branchCoverage;
+            const existing = branches[srcPath]!.get(num);
+            branches[srcPath]!.set(
+              num,
+              new BranchCoverage(
+                num,
+                Math.max(covered, existing?.covered ?? 0),
+                Math.max(total, existing?.total ?? 0),
+              ),
+            );
+          }
         }
-        currentMeasured.push(num);
-      }
 
-      if (violations === null) {
-        violations = currentViolations;
-      } else {
-        // intersection
-        const currentSet = new Set(currentViolations.map((v) => v.line));
-        violations = violations.filter((v) => currentSet.has(v.line));
+        if (this._expandCoverageReport) {
+          lineHits = expandLineHits(lineHits);
+        }
+        reportsLineHits[srcPath]!.push(lineHits);
       }
+    }
 
-      for (const m of currentMeasured) {
-        measured.add(m);
-      }
+    for (const srcPath of uncached) {
+      this._infoCache[srcPath] = mergeLineHits(reportsLineHits[srcPath]!, this._mergeStrategy);
+      this._branchCache[srcPath] = branches[srcPath]!;
     }
+  }
 
-    if (violations === null) {
-      violations = [];
+  override reportedPaths(): string[] {
+    if (this._reportedPaths) return this._reportedPaths;
+
+    const paths = new Set<string>();
+    for (const xmlSource of this._xmlSources) {
+      let dialect: XmlDialect = "cobertura";
+      let depth = 0;
+      let packageName = "";
+
+      xmlSource({
+        openTag: (name, attributes) => {
+          depth++;
+          if (depth === 1) {
+            dialect = this._dialect || xmlDialect(name, attributes);
+          } else if (dialect === "clover" && name === "file" && attributes["path"]) {
+            paths.add(toUnixPath(GitPathTool.relativePath(PathMapTool.apply(attributes["path"]))));
+          } else if (dialect === "jacoco" && name === "package") {
+            packageName = attributes["name"] || "";
+          } else if (dialect === "jacoco" && name === "sourcefile") {
+            paths.add(
+              toUnixPath(PathMapTool.apply(path.join(packageName, attributes["name"] || ""))),
+            );
+          } else if (dialect === "cobertura" && name === "class" && attributes["filename"]) {
+            paths.add(this._normalizePath(PathMapTool.apply(attributes["filename"])));
+          }
+        },
+        closeTag: () => {
+          depth--;
+        },
+      });
     }
+    this._reportedPaths = Array.from(paths);
+    return this._reportedPaths;
+  }
 
-    this._infoCache[srcPath] = [violations, measured];
+  override violationsBatch(srcPaths: string[]): { [key: string]: Violation[] } {
+    this._cacheFiles(srcPaths);
+    const result: { [key: string]: Violation[] } = {};
+    for (const srcPath of srcPaths) {
+      result[srcPath] = this._infoCache[srcPath]![0];
+    }
+    return result;
   }
 
   override violations(srcPath: string): Violation[] {
-    this._cacheFile(srcPath);
+    this._cacheFiles([srcPath]);
     return this._infoCache[srcPath]![0];
   }
 
   override measuredLines(srcPath: string): number[] | null {
-    this._cacheFile(srcPath);
+    this._cacheFiles([srcPath]);
     return Array.from(this._infoCache[srcPath]![1]);
   }
+
+  override branches(srcPath: string): BranchCoverage[] | null {
+    this._cacheFiles([srcPath]);
+    const branches = this._branchCache[srcPath]!;
+    return branches.size > 0 ? Array.from(branches.values()) : null;
+  }
 }
 
 export class LcovCoverageReporter extends BaseViolationReporter {
   private _lcovRoots: string[];
   private _srcRoots: string[];
-  private _lcovReport: { [key: string]: { [key: number]: number } } = {};
+  private _expandCoverageReport: boolean;
+  private _mergeStrategy: MergeStrategy;
+  // One entry per report: srcPath -> line -> hits
+  private _lcovReports: { [key: string]: { [key: number]: number } }[] = [];
+  // srcPath -> line -> "block,branch" -> times taken
+  private _lcovBranches: { [key: string]: { [key: number]: { [key: string]: number } } } = {};
+  // One entry per report: srcPath -> functions
+  private _lcovFunctions: { [key: string]: FunctionCoverage[] }[] = [];
   private _infoCache: { [key: string]: [Violation[], Set<number>] } = {};
 
-  constructor(lcovContentList: string[], srcRoots: string[] | null = null) {
+  constructor(
+    lcovContentList: string[],
+    srcRoots: string[] | null = null,
+    expandCoverageReport: boolean = false,
+    mergeStrategy: MergeStrategy = "union",
+  ) {
     super("LCOV");
     this._lcovRoots = lcovContentList;
     this._srcRoots = srcRoots || [""];
+    this._expandCoverageReport = expandCoverageReport;
+    this._mergeStrategy = mergeStrategy;
     this._parseAll();
   }
 
   private _parseAll() {
     for (const content of this._lcovRoots) {
-      this._parse(content);
+      this._lcovReports.push(this._parse(content));
     }
   }
 
-  private _parse(content: string) {
+  private _parse(content: string): { [key: string]: { [key: number]: number } } {
     // Parse LCOV content
+    const lcovReport: { [key: string]: { [key: number]: number } } = {};
+    // srcPath -> function name -> [start line, calls]
+    const functions: { [key: string]: { [key: string]: [number, number] } } = {};
+    // srcPath -> FNL index -> start line, for the lcov 2.2 function records
+    const functionIndexLines: { [key: string]: { [key: string]: number } } = {};
     const lines = content.split(/\r\n|\r|\n/);
     let sourceFile: string | null = null;
 
+    const addFunction = (name: string, lineNo: number | null, calls: number) => {
+      if (!sourceFile) return;
+      if (!functions[sourceFile]) {
+        functions[sourceFile] = {};
+      }
+      const existing = functions[sourceFile]![name];
+      functions[sourceFile]![name] = [lineNo ?? existing?.[0] ?? 0, (existing?.[1] ?? 0) + calls];
+    };
+
     for (const line of lines) {
       const trimmed = line.trim();
       if (!trimmed) continue;
@@ -319,44 +634,107 @@ export class LcovCoverageReporter extends BaseViolationReporter {
       const value = rest.join(":");
 
       if (directive === "SF") {
-        sourceFile = toUnixPath(GitPathTool.relativePath(value));
+        sourceFile = toUnixPath(GitPathTool.relativePath(PathMapTool.apply(value)));
+        // Files without executable lines are still part of the report
+        if (!lcovReport[sourceFile]) {
+          lcovReport[sourceFile] = {};
+        }
       } else if (directive === "DA") {
         if (sourceFile && value) {
           const parts = value.split(",");
           const lineNo = parseInt(parts[0]!, 10);
           const executions = parseInt(parts[1]!, 10);
 
-          if (!this._lcovReport[sourceFile]) {
-            this._lcovReport[sourceFile] = {};
+          if (!lcovReport[sourceFile]) {
+            lcovReport[sourceFile] = {};
+          }
+
+          if (!lcovReport[sourceFile]![lineNo]) {
+            lcovReport[sourceFile]![lineNo] = 0;
           }
+          lcovReport[sourceFile]![lineNo]! += executions;
+        }
+      } else if (directive === "BRDA") {
+        // BRDA:<line>,<block>,<branch>,<taken>; taken is "-" when the block never ran
+        if (sourceFile && value) {
+          const parts = value.split(",");
+          const lineNo = parseInt(parts[0]!, 10);
+          const branchKey = `${parts[1]},${parts[2]}`;
+          const taken = parts[3] === "-" ? 0 : parseInt(parts[3]!, 10);
 
-          if (!this._lcovReport[sourceFile]![lineNo]) {
-            this._lcovReport[sourceFile]![lineNo] = 0;
+          if (!this._lcovBranches[sourceFile]) {
+            this._lcovBranches[sourceFile] = {};
+          }
+          if (!this._lcovBranches[sourceFile]![lineNo]) {
+            this._lcovBranches[sourceFile]![lineNo] = {};
+          }
+          const lineBranches = this._lcovBranches[sourceFile]![lineNo]!;
+          lineBranches[branchKey] = (lineBranches[branchKey] || 0) + taken;
+        }
+      } else if (directive === "FN") {
+        // FN:<line>,<name>, or FN:<line>,<end line>,<name> since lcov 2.0
+        if (sourceFile && value) {
+          const parts = value.split(",");
+          const nameStart = parts.length >= 3 && /^\d+$/.test(parts[1]!) ? 2 : 1;
+          addFunction(parts.slice(nameStart).join(","), parseInt(parts[0]!, 10), 0);
+        }
+      } else if (directive === "FNDA") {
+        // FNDA:<calls>,<name>
+        const comma = value.indexOf(",");
+        if (comma !== -1) {
+          addFunction(value.slice(comma + 1), null, parseInt(value.slice(0, comma), 10) || 0);
+        }
+      } else if (directive === "FNL") {
+        // FNL:<index>,<line>[,<end line>] since lcov 2.2
+        if (sourceFile && value) {
+          const parts = value.split(",");
+          if (!functionIndexLines[sourceFile]) {
+            functionIndexLines[sourceFile] = {};
+          }
+          functionIndexLines[sourceFile]![parts[0]!] = parseInt(parts[1]!, 10);
+        }
+      } else if (directive === "FNA") {
+        // FNA:<index>,<calls>,<name> since lcov 2.2
+        if (sourceFile && value) {
+          const parts = value.split(",");
+          const lineNo = functionIndexLines[sourceFile]?.[parts[0]!];
+          if (lineNo !== undefined) {
+            addFunction(parts.slice(2).join(","), lineNo, parseInt(parts[1]!, 10) || 0);
           }
-          this._lcovReport[sourceFile]![lineNo]! += executions;
         }
       }
-      // Ignore others for now
+      // BRF/BRH and FNF/FNH are per-file totals, which are recomputed from the
+      // records restricted to the diff. Other directives are ignored for now.
     }
+
+    const reportFunctions: { [key: string]: FunctionCoverage[] } = {};
+    for (const [srcPath, fileFunctions] of Object.entries(functions)) {
+      reportFunctions[srcPath] = Object.entries(fileFunctions)
+        // FNDA records without an FN record have no line to report
+        .filter(([, [lineNo]]) => lineNo > 0)
+        .map(([name, [lineNo, calls]]) => new FunctionCoverage(name, lineNo, calls));
+    }
+    this._lcovFunctions.push(reportFunctions);
+    return lcovReport;
   }
 
   override violations(srcPath: string): Violation[] {
     if (!this._infoCache[srcPath]) {
-      const report = this._lcovReport[srcPath];
-      if (!report) {
-        this._infoCache[srcPath] = [[], new Set()];
-      } else {
-        const violations: Violation[] = [];
-        const measured = new Set<number>();
-        for (const [lineNoStr, count] of Object.entries(report)) {
-          const lineNo = parseInt(lineNoStr, 10);
-          measured.add(lineNo);
-          if (count === 0) {
-            violations.push(new Violation(lineNo, null));
-          }
+      const reportsLineHits: [number, number][][] = [];
+      for (const lcovReport of this._lcovReports) {
+        const report = lcovReport[srcPath];
+        if (!report) continue;
+
+        let lineHits: [number, number][] = Object.entries(report).map(([lineNoStr, count]) => [
+          parseInt(lineNoStr, 10),
+          count,
+        ]);
+        if (this._expandCoverageReport) {
+          lineHits = expandLineHits(lineHits);
         }
-        this._infoCache[srcPath] = [violations, measured];
+        reportsLineHits.push(lineHits);
       }
+      this._infoCache[srcPath] = mergeLineHits(reportsLineHits, this._mergeStrategy);
     }
     return this._infoCache[srcPath][0];
   }
@@ -367,24 +745,1483 @@ export class LcovCoverageReporter extends BaseViolationReporter {
     }
     return Array.from(this._infoCache[srcPath]![1]);
   }
+
+  override reportedPaths(): string[] | null {
+    const paths = new Set<string>();
+    for (const lcovReport of this._lcovReports) {
+      for (const srcPath of Object.keys(lcovReport)) {
+        paths.add(srcPath);
+      }
+    }
+    return Array.from(paths);
+  }
+
+  override branches(srcPath: string): BranchCoverage[] | null {
+    const report = this._lcovBranches[srcPath];
+    if (!report) return null;
+
+    return Object.entries(report).map(([lineNoStr, lineBranches]) => {
+      const counts = Object.values(lineBranches);
+      return new BranchCoverage(
+        parseInt(lineNoStr, 10),
+        counts.filter((count) => count > 0).length,
+        counts.length,
+      );
+    });
+  }
+
+  override functions(srcPath: string): FunctionCoverage[] | null {
+    return mergeFunctionCalls(
+      this._lcovFunctions.map((reportFunctions) => reportFunctions[srcPath]),
+      this._mergeStrategy,
+    );
+  }
 }
 
-export abstract class QualityDriver {
-  constructor(
-    public name: string,
-    public supportedExtensions: string[],
-    public command: string[],
-    public exitCodes: number[] = [0],
-    public outputStderr: boolean = false,
-  ) {}
+interface IstanbulLocation {
+  start: { line: number; column: number | null };
+  end: { line: number; column: number | null };
+}
 
-  abstract parseReports(reports: string[]): { [key: string]: Violation[] };
+interface IstanbulFunction {
+  name: string;
+  decl?: IstanbulLocation;
+  loc?: IstanbulLocation;
+  line?: number;
+}
 
-  abstract installed(): boolean;
+interface IstanbulFileCoverage {
+  path?: string;
+  statementMap: { [key: string]: IstanbulLocation };
+  s?: { [key: string]: number };
+  fnMap?: { [key: string]: IstanbulFunction };
+  f?: { [key: string]: number };
+}
 
-  addDriverArgs(args: Record<string, any>): void {
-    throw new Error(`Unsupported argument(s) ${Object.keys(args).join(", ")}`);
+function isIstanbulFileCoverage(value: unknown): value is IstanbulFileCoverage {
+  return isJsonObject(value) && isJsonObject(value.statementMap);
+}
+
+// Older istanbul versions wrap the file coverage in a "data" property
+function unwrapIstanbulEntry(entry: unknown): unknown {
+  return isJsonObject(entry) ? (entry.data ?? entry) : entry;
+}
+
+export class IstanbulCoverageReporter extends BaseViolationReporter {
+  private _jsonRoots: string[];
+  private _mergeStrategy: MergeStrategy;
+  // One entry per report: srcPath -> line -> hits
+  private _istanbulReports: { [key: string]: { [key: number]: number } }[] = [];
+  // One entry per report: srcPath -> functions
+  private _istanbulFunctions: { [key: string]: FunctionCoverage[] }[] = [];
+  private _infoCache: { [key: string]: [Violation[], Set<number>] } = {};
+
+  constructor(jsonContentList: string[], mergeStrategy: MergeStrategy = "union") {
+    super("Istanbul JSON");
+    this._jsonRoots = jsonContentList;
+    this._mergeStrategy = mergeStrategy;
+    this._parseAll();
+  }
+
+  /**
+   * Istanbul's coverage-final.json is an object keyed by file path whose values
+   * carry a statementMap. Used to route JSON reports to this reporter.
+   */
+  static isIstanbulReport(content: string): boolean {
+    const trimmed = content.trim();
+    if (!trimmed.startsWith("{")) return false;
+    try {
+      const report: unknown = JSON.parse(trimmed);
+      if (!isJsonObject(report)) return false;
+      const entries = Object.values(report);
+      return (
+        entries.length > 0 &&
+        entries.every((entry) => isIstanbulFileCoverage(unwrapIstanbulEntry(entry)))
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  private _parseAll() {
+    for (const content of this._jsonRoots) {
+      this._istanbulReports.push(this._parse(content));
+    }
+  }
+
+  private _parse(content: string): { [key: string]: { [key: number]: number } } {
+    const report: unknown = JSON.parse(content);
+    const istanbulReport: { [key: string]: { [key: number]: number } } = {};
+    const reportFunctions: { [key: string]: FunctionCoverage[] } = {};
+
+    for (const [key, entry] of Object.entries(isJsonObject(report) ? report : {})) {
+      const fileCoverage = unwrapIstanbulEntry(entry);
+      if (!isIstanbulFileCoverage(fileCoverage)) continue;
+
+      const sourceFile = toUnixPath(
+        GitPathTool.relativePath(PathMapTool.apply(fileCoverage.path || key)),
+      );
+      if (!istanbulReport[sourceFile]) {
+        istanbulReport[sourceFile] = {};
+      }
+      const lineHits = istanbulReport[sourceFile]!;
+
+      // Same derivation as istanbul-lib-coverage's getLineCoverage():
+      // a line takes the highest hit count of the statements starting on it.
+      const lineHitsInReport: { [key: number]: number } = {};
+      for (const [statementId, location] of Object.entries(fileCoverage.statementMap)) {
+        const lineNo = location.start.line;
+        const count = fileCoverage.s?.[statementId] ?? 0;
+        const previous = lineHitsInReport[lineNo];
+        if (previous === undefined || previous < count) {
+          lineHitsInReport[lineNo] = count;
+        }
+      }
+
+      for (const [lineNoStr, count] of Object.entries(lineHitsInReport)) {
+        const lineNo = parseInt(lineNoStr, 10);
+        lineHits[lineNo] = (lineHits[lineNo] || 0) + count;
+      }
+
+      for (const [functionId, fn] of Object.entries(fileCoverage.fnMap || {})) {
+        const lineNo = fn.decl?.start.line ?? fn.loc?.start.line ?? fn.line;
+        if (lineNo === undefined) continue;
+        reportFunctions[sourceFile] = [
+          ...(reportFunctions[sourceFile] || []),
+          new FunctionCoverage(fn.name, lineNo, fileCoverage.f?.[functionId] ?? 0),
+        ];
+      }
+    }
+    this._istanbulFunctions.push(reportFunctions);
+    return istanbulReport;
+  }
+
+  override violations(srcPath: string): Violation[] {
+    if (!this._infoCache[srcPath]) {
+      const reportsLineHits: [number, number][][] = [];
+      for (const istanbulReport of this._istanbulReports) {
+        const report = istanbulReport[toUnixPath(srcPath)];
+        if (!report) continue;
+
+        reportsLineHits.push(
+          Object.entries(report).map(([lineNoStr, count]) => [parseInt(lineNoStr, 10), count]),
+        );
+      }
+      this._infoCache[srcPath] = mergeLineHits(reportsLineHits, this._mergeStrategy);
+    }
+    return this._infoCache[srcPath][0];
+  }
+
+  override measuredLines(srcPath: string): number[] | null {
+    if (!this._infoCache[srcPath]) {
+      this.violations(srcPath);
+    }
+    return Array.from(this._infoCache[srcPath]![1]);
+  }
+
+  override reportedPaths(): string[] | null {
+    const paths = new Set<string>();
+    for (const istanbulReport of this._istanbulReports) {
+      for (const srcPath of Object.keys(istanbulReport)) {
+        paths.add(srcPath);
+      }
+    }
+    return Array.from(paths);
+  }
+
+  override functions(srcPath: string): FunctionCoverage[] | null {
+    return mergeFunctionCalls(
+      this._istanbulFunctions.map((reportFunctions) => reportFunctions[toUnixPath(srcPath)]),
+      this._mergeStrategy,
+    );
+  }
+}
+
+interface CoveragePyFileCoverage {
+  executed_lines: number[];
+  missing_lines: number[];
+  excluded_lines?: number[];
+  executed_branches?: [number, number][];
+  missing_branches?: [number, number][];
+}
+
+function isCoveragePyFileCoverage(value: unknown): value is CoveragePyFileCoverage {
+  return (
+    isJsonObject(value) && Array.isArray(value.executed_lines) && Array.isArray(value.missing_lines)
+  );
+}
+
+/**
+ * Reads the output of `coverage json` from coverage.py. Excluded lines (e.g.
+ * `# pragma: no cover`) are never measured, and branch arcs are exposed as
+ * branch coverage of their source line.
+ */
+export class CoveragePyJsonReporter extends BaseViolationReporter {
+  private _mergeStrategy: MergeStrategy;
+  // One entry per report: srcPath -> line -> hits (0 or 1)
+  private _coveragePyReports: { [key: string]: [number, number][] }[] = [];
+  // srcPath -> line -> "from,to" arc -> taken (0 or 1)
+  private _coveragePyBranches: { [key: string]: { [key: number]: { [key: string]: number } } } = {};
+  private _infoCache: { [key: string]: [Violation[], Set<number>] } = {};
+
+  constructor(jsonContentList: string[], mergeStrategy: MergeStrategy = "union") {
+    super("coverage.py JSON");
+    this._mergeStrategy = mergeStrategy;
+    for (const content of jsonContentList) {
+      this._coveragePyReports.push(this._parse(content));
+    }
+  }
+
+  static isCoveragePyReport(content: string): boolean {
+    const trimmed = content.trim();
+    if (!trimmed.startsWith("{")) return false;
+    try {
+      const report: unknown = JSON.parse(trimmed);
+      return (
+        isJsonObject(report) &&
+        isJsonObject(report.meta) &&
+        isJsonObject(report.files) &&
+        Object.values(report.files).every(isCoveragePyFileCoverage)
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  private _parse(content: string): { [key: string]: [number, number][] } {
+    const report: unknown = JSON.parse(content);
+    const coveragePyReport: { [key: string]: [number, number][] } = {};
+
+    const files = isJsonObject(report) && isJsonObject(report.files) ? report.files : {};
+    for (const [file, fileCoverage] of Object.entries(files)) {
+      if (!isCoveragePyFileCoverage(fileCoverage)) continue;
+
+      const sourceFile = toUnixPath(GitPathTool.relativePath(PathMapTool.apply(file)));
+      const excluded = new Set(fileCoverage.excluded_lines || []);
+
+      const lineHits: [number, number][] = [];
+      for (const lineNo of fileCoverage.executed_lines) {
+        if (!excluded.has(lineNo)) lineHits.push([lineNo, 1]);
+      }
+      for (const lineNo of fileCoverage.missing_lines) {
+        if (!excluded.has(lineNo)) lineHits.push([lineNo, 0]);
+      }
+      coveragePyReport[sourceFile] = (coveragePyReport[sourceFile] || []).concat(lineHits);
+
+      const arcs: [[number, number][], number][] = [
+        [fileCoverage.executed_branches || [], 1],
+        [fileCoverage.missing_branches || [], 0],
+      ];
+      for (const [branchArcs, taken] of arcs) {
+        for (const [fromLine, toLine] of branchArcs) {
+          if (excluded.has(fromLine)) continue;
+
+          if (!this._coveragePyBranches[sourceFile]) {
+            this._coveragePyBranches[sourceFile] = {};
+          }
+          if (!this._coveragePyBranches[sourceFile]![fromLine]) {
+            this._coveragePyBranches[sourceFile]![fromLine] = {};
+          }
+          const lineBranches = this._coveragePyBranches[sourceFile]![fromLine]!;
+          const arc = `${fromLine},${toLine}`;
+          lineBranches[arc] = Math.max(lineBranches[arc] ?? 0, taken);
+        }
+      }
+    }
+    return coveragePyReport;
+  }
+
+  override violations(srcPath: string): Violation[] {
+    if (!this._infoCache[srcPath]) {
+      const reportsLineHits: [number, number][][] = [];
+      for (const coveragePyReport of this._coveragePyReports) {
+        const lineHits = coveragePyReport[toUnixPath(srcPath)];
+        if (lineHits) reportsLineHits.push(lineHits);
+      }
+      this._infoCache[srcPath] = mergeLineHits(reportsLineHits, this._mergeStrategy);
+    }
+    return this._infoCache[srcPath][0];
+  }
+
+  override measuredLines(srcPath: string): number[] | null {
+    if (!this._infoCache[srcPath]) {
+      this.violations(srcPath);
+    }
+    return Array.from(this._infoCache[srcPath]![1]);
+  }
+
+  override branches(srcPath: string): BranchCoverage[] | null {
+    const report = this._coveragePyBranches[toUnixPath(srcPath)];
+    if (!report) return null;
+
+    return Object.entries(report).map(([lineNoStr, lineBranches]) => {
+      const taken = Object.values(lineBranches);
+      return new BranchCoverage(
+        parseInt(lineNoStr, 10),
+        taken.filter((t) => t > 0).length,
+        taken.length,
+      );
+    });
+  }
+
+  override reportedPaths(): string[] | null {
+    const paths = new Set<string>();
+    for (const coveragePyReport of this._coveragePyReports) {
+      for (const srcPath of Object.keys(coveragePyReport)) {
+        paths.add(srcPath);
+      }
+    }
+    return Array.from(paths);
+  }
+}
+
+/**
+ * Merges the branches found in one report into those of the previous reports.
+ * Branches of a line are added up within a report, while across reports the
+ * line keeps the best coverage seen.
+ */
+function mergeReportBranches(
+  merged: { [key: string]: Map<number, BranchCoverage> },
+  reportBranches: { [key: string]: Map<number, BranchCoverage> },
+) {
+  for (const [srcPath, branches] of Object.entries(reportBranches)) {
+    if (!merged[srcPath]) {
+      merged[srcPath] = new Map();
+    }
+    const mergedBranches = merged[srcPath]!;
+    for (const [lineNo, branch] of branches) {
+      const existing = mergedBranches.get(lineNo);
+      mergedBranches.set(
+        lineNo,
+        new BranchCoverage(
+          lineNo,
+          Math.max(branch.covered, existing?.covered ?? 0),
+          Math.max(branch.total, existing?.total ?? 0),
+        ),
+      );
+    }
+  }
+}
+
+function addBranches(
+  reportBranches: { [key: string]: Map<number, BranchCoverage> },
+  srcPath: string,
+  lineNo: number,
+  covered: number,
+  total: number,
+) {
+  if (!reportBranches[srcPath]) {
+    reportBranches[srcPath] = new Map();
+  }
+  const existing = reportBranches[srcPath]!.get(lineNo);
+  reportBranches[srcPath]!.set(
+    lineNo,
+    new BranchCoverage(lineNo, covered + (existing?.covered ?? 0), total + (existing?.total ?? 0)),
+  );
+}
+
+// [line, column, count, hasCount, isRegionEntry, isGapRegion?]
+type LlvmSegment = [number, number, number, boolean, boolean, boolean?];
+
+interface LlvmCovFile {
+  filename: string;
+  segments?: LlvmSegment[];
+  // [lineStart, colStart, lineEnd, colEnd, trueCount, falseCount, ...]
+  branches?: number[][];
+}
+
+function isLlvmCovFile(value: unknown): value is LlvmCovFile {
+  return isJsonObject(value) && typeof value.filename === "string";
+}
+
+/**
+ * Line hits from llvm-cov segments, following LLVM's LineCoverageStats: a line
+ * is mapped if a region starts on it or a counted region wraps into it, and
+ * takes the highest count of those regions. Lines starting a skipped region
+ * are not mapped.
+ */
+function llvmLineHits(segments: LlvmSegment[]): [number, number][] {
+  const lineHits: [number, number][] = [];
+  if (segments.length === 0) return lineHits;
+
+  const isStartOfRegion = (segment: LlvmSegment) => !segment[5] && segment[3] && segment[4];
+
+  let next = 0;
+  let wrapped: LlvmSegment | null = null;
+  const lastLine = segments[segments.length - 1]![0];
+  for (let lineNo = segments[0]![0]; lineNo <= lastLine; lineNo++) {
+    const lineSegments: LlvmSegment[] = [];
+    while (next < segments.length && segments[next]![0] === lineNo) {
+      lineSegments.push(segments[next++]!);
+    }
+
+    const regionStarts = lineSegments.filter(isStartOfRegion);
+    const startOfSkippedRegion =
+      lineSegments.length > 0 && !lineSegments[0]![3] && lineSegments[0]![4];
+    const mapped =
+      !startOfSkippedRegion && ((wrapped !== null && wrapped[3]) || regionStarts.length > 0);
+
+    if (mapped) {
+      let count = wrapped ? wrapped[2] : 0;
+      for (const segment of regionStarts) {
+        count = Math.max(count, segment[2]);
+      }
+      lineHits.push([lineNo, count]);
+    }
+
+    if (lineSegments.length > 0) {
+      wrapped = lineSegments[lineSegments.length - 1]!;
+    }
+  }
+  return lineHits;
+}
+
+/**
+ * Reads `llvm-cov export -format=text` output, as produced for Rust
+ * (cargo-llvm-cov) and clang source-based coverage.
+ */
+export class LlvmCovJsonReporter extends BaseViolationReporter {
+  private _mergeStrategy: MergeStrategy;
+  // One entry per report: srcPath -> line hits
+  private _llvmReports: { [key: string]: [number, number][] }[] = [];
+  // srcPath -> line -> BranchCoverage
+  private _llvmBranches: { [key: string]: Map<number, BranchCoverage> } = {};
+  private _infoCache: { [key: string]: [Violation[], Set<number>] } = {};
+
+  constructor(jsonContentList: string[], mergeStrategy: MergeStrategy = "union") {
+    super("llvm-cov JSON");
+    this._mergeStrategy = mergeStrategy;
+    for (const content of jsonContentList) {
+      this._llvmReports.push(this._parse(content));
+    }
+  }
+
+  static isLlvmCovReport(content: string): boolean {
+    const trimmed = content.trim();
+    if (!trimmed.startsWith("{")) return false;
+    try {
+      const report: unknown = JSON.parse(trimmed);
+      return isJsonObject(report) && report.type === "llvm.coverage.json.export";
+    } catch {
+      return false;
+    }
+  }
+
+  private _parse(content: string): { [key: string]: [number, number][] } {
+    const report: unknown = JSON.parse(content);
+    const llvmReport: { [key: string]: [number, number][] } = {};
+    const reportBranches: { [key: string]: Map<number, BranchCoverage> } = {};
+
+    const exports = isJsonObject(report) && Array.isArray(report.data) ? report.data : [];
+    for (const exported of exports) {
+      const files = isJsonObject(exported) && Array.isArray(exported.files) ? exported.files : [];
+      for (const file of files.filter(isLlvmCovFile)) {
+        const sourceFile = toUnixPath(GitPathTool.relativePath(PathMapTool.apply(file.filename)));
+        llvmReport[sourceFile] = (llvmReport[sourceFile] || []).concat(
+          llvmLineHits(file.segments || []),
+        );
+
+        for (const branch of file.branches || []) {
+          const [lineNo, , , , trueCount, falseCount] = branch;
+          if (
+            typeof lineNo !== "number" ||
+            typeof trueCount !== "number" ||
+            typeof falseCount !== "number"
+          ) {
+            continue;
+          }
+          addBranches(
+            reportBranches,
+            sourceFile,
+            lineNo,
+            (trueCount > 0 ? 1 : 0) + (falseCount > 0 ? 1 : 0),
+            2,
+          );
+        }
+      }
+    }
+
+    mergeReportBranches(this._llvmBranches, reportBranches);
+    return llvmReport;
+  }
+
+  override violations(srcPath: string): Violation[] {
+    if (!this._infoCache[srcPath]) {
+      const reportsLineHits: [number, number][][] = [];
+      for (const llvmReport of this._llvmReports) {
+        const lineHits = llvmReport[toUnixPath(srcPath)];
+        if (lineHits) reportsLineHits.push(lineHits);
+      }
+      this._infoCache[srcPath] = mergeLineHits(reportsLineHits, this._mergeStrategy);
+    }
+    return this._infoCache[srcPath][0];
+  }
+
+  override measuredLines(srcPath: string): number[] | null {
+    if (!this._infoCache[srcPath]) {
+      this.violations(srcPath);
+    }
+    return Array.from(this._infoCache[srcPath]![1]);
+  }
+
+  override branches(srcPath: string): BranchCoverage[] | null {
+    const branches = this._llvmBranches[toUnixPath(srcPath)];
+    return branches ? Array.from(branches.values()) : null;
+  }
+
+  override reportedPaths(): string[] | null {
+    const paths = new Set<string>();
+    for (const llvmReport of this._llvmReports) {
+      for (const srcPath of Object.keys(llvmReport)) {
+        paths.add(srcPath);
+      }
+    }
+    return Array.from(paths);
+  }
+}
+
+interface GcovLine {
+  line_number: number;
+  count: number;
+  branches?: { count: number; throw?: boolean }[];
+}
+
+interface GcovFile {
+  file: string;
+  lines?: GcovLine[];
+}
+
+function isGcovFile(value: unknown): value is GcovFile {
+  return isJsonObject(value) && typeof value.file === "string";
+}
+
+/**
+ * Reads `gcov --json-format` output (GCC 9+). Lines listed several times, e.g.
+ * once per template instantiation, add up their counts. `--stdout` output with
+ * one JSON document per line is accepted too.
+ */
+export class GcovJsonReporter extends BaseViolationReporter {
+  private _mergeStrategy: MergeStrategy;
+  // One entry per report: srcPath -> line hits
+  private _gcovReports: { [key: string]: [number, number][] }[] = [];
+  // srcPath -> line -> BranchCoverage
+  private _gcovBranches: { [key: string]: Map<number, BranchCoverage> } = {};
+  private _infoCache: { [key: string]: [Violation[], Set<number>] } = {};
+
+  constructor(jsonContentList: string[], mergeStrategy: MergeStrategy = "union") {
+    super("gcov JSON");
+    this._mergeStrategy = mergeStrategy;
+    for (const content of jsonContentList) {
+      this._gcovReports.push(this._parse(content));
+    }
+  }
+
+  private static _documents(content: string): string[] {
+    return content.trim().split(/\n(?=\{)/);
+  }
+
+  static isGcovReport(content: string): boolean {
+    const trimmed = content.trim();
+    if (!trimmed.startsWith("{")) return false;
+    try {
+      const report: unknown = JSON.parse(GcovJsonReporter._documents(trimmed)[0]!);
+      return (
+        isJsonObject(report) &&
+        typeof report.gcc_version === "string" &&
+        Array.isArray(report.files)
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  private _parse(content: string): { [key: string]: [number, number][] } {
+    const gcovReport: { [key: string]: [number, number][] } = {};
+    const reportBranches: { [key: string]: Map<number, BranchCoverage> } = {};
+
+    for (const document of GcovJsonReporter._documents(content)) {
+      const report: unknown = JSON.parse(document);
+      if (!isJsonObject(report)) continue;
+      // File names are relative to the directory gcov ran in
+      const baseDir =
+        typeof report.current_working_directory === "string"
+          ? report.current_working_directory
+          : process.cwd();
+
+      const files = Array.isArray(report.files) ? report.files : [];
+      for (const file of files.filter(isGcovFile)) {
+        const sourceFile = toUnixPath(
+          GitPathTool.relativePath(PathMapTool.apply(path.resolve(baseDir, file.file))),
+        );
+        const lineHits = gcovReport[sourceFile] || [];
+        gcovReport[sourceFile] = lineHits;
+
+        for (const line of file.lines || []) {
+          lineHits.push([line.line_number, line.count]);
+
+          // Branches taken only when an exception is thrown are not actionable
+          const branches = (line.branches || []).filter((branch) => !branch.throw);
+          if (branches.length > 0) {
+            addBranches(
+              reportBranches,
+              sourceFile,
+              line.line_number,
+              branches.filter((branch) => branch.count > 0).length,
+              branches.length,
+            );
+          }
+        }
+      }
+    }
+
+    mergeReportBranches(this._gcovBranches, reportBranches);
+    return gcovReport;
+  }
+
+  override violations(srcPath: string): Violation[] {
+    if (!this._infoCache[srcPath]) {
+      const reportsLineHits: [number, number][][] = [];
+      for (const gcovReport of this._gcovReports) {
+        const lineHits = gcovReport[toUnixPath(srcPath)];
+        if (lineHits) reportsLineHits.push(lineHits);
+      }
+      this._infoCache[srcPath] = mergeLineHits(reportsLineHits, this._mergeStrategy);
+    }
+    return this._infoCache[srcPath][0];
+  }
+
+  override measuredLines(srcPath: string): number[] | null {
+    if (!this._infoCache[srcPath]) {
+      this.violations(srcPath);
+    }
+    return Array.from(this._infoCache[srcPath]![1]);
+  }
+
+  override branches(srcPath: string): BranchCoverage[] | null {
+    const branches = this._gcovBranches[toUnixPath(srcPath)];
+    return branches ? Array.from(branches.values()) : null;
+  }
+
+  override reportedPaths(): string[] | null {
+    const paths = new Set<string>();
+    for (const gcovReport of this._gcovReports) {
+      for (const srcPath of Object.keys(gcovReport)) {
+        paths.add(srcPath);
+      }
+    }
+    return Array.from(paths);
+  }
+}
+
+interface V8Range {
+  startOffset: number;
+  endOffset: number;
+  count: number;
+}
+
+interface V8ScriptCoverage {
+  url: string;
+  functions: { ranges: V8Range[] }[];
+}
+
+function isV8Script(value: unknown): value is V8ScriptCoverage {
+  return isJsonObject(value) && typeof value.url === "string" && Array.isArray(value.functions);
+}
+
+/**
+ * Converts V8 block ranges (character offsets into the script) into per-line
+ * hit counts. A line takes the count of the innermost range containing all of
+ * its non-whitespace text, as v8-to-istanbul does. Blank lines are not measured.
+ */
+function v8LineHits(source: string, ranges: V8Range[]): [number, number][] {
+  // [first, last) offsets of the non-whitespace text of each non-blank line
+  const lines: [number, number, number][] = [];
+  let lineStart = 0;
+  const srcLines = source.split("\n");
+  for (let i = 0; i < srcLines.length; i++) {
+    const text = srcLines[i]!.replace(/\r$/, "");
+    const trimmed = text.trim();
+    if (trimmed) {
+      const start = lineStart + text.length - text.trimStart().length;
+      lines.push([i + 1, start, start + trimmed.length]);
+    }
+    lineStart += srcLines[i]!.length + 1;
+  }
+
+  const counts = new Map<number, number>();
+  // Outer ranges first, so nested blocks override the enclosing function
+  const sortedRanges = [...ranges].sort(
+    (a, b) => b.endOffset - b.startOffset - (a.endOffset - a.startOffset),
+  );
+  for (const range of sortedRanges) {
+    // First line starting inside the range
+    let low = 0;
+    let high = lines.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (lines[mid]![1] < range.startOffset) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    for (let i = low; i < lines.length && lines[i]![1] < range.endOffset; i++) {
+      const [lineNo, , end] = lines[i]!;
+      if (end <= range.endOffset) {
+        counts.set(lineNo, range.count);
+      }
+    }
+  }
+  return Array.from(counts.entries());
+}
+
+/**
+ * Reads the raw coverage V8 writes into a NODE_V8_COVERAGE directory, one
+ * JSON dump per process. Each report is the list of dumps of one directory;
+ * hits for a script loaded by several processes are added up.
+ */
+export class V8CoverageReporter extends BaseViolationReporter {
+  private _mergeStrategy: MergeStrategy;
+  // One entry per report: srcPath -> block ranges of every dump of the script
+  private _v8Reports: { [key: string]: V8Range[][] }[] = [];
+  private _infoCache: { [key: string]: [Violation[], Set<number>] } = {};
+
+  constructor(v8DumpLists: string[][], mergeStrategy: MergeStrategy = "union") {
+    super("V8");
+    this._mergeStrategy = mergeStrategy;
+    for (const dumps of v8DumpLists) {
+      this._v8Reports.push(this._parse(dumps));
+    }
+  }
+
+  /**
+   * A V8 coverage dump is an object with a "result" list of script coverages.
+   */
+  static isV8Report(content: string): boolean {
+    const trimmed = content.trim();
+    if (!trimmed.startsWith("{")) return false;
+    try {
+      const report: unknown = JSON.parse(trimmed);
+      return (
+        isJsonObject(report) && Array.isArray(report.result) && report.result.every(isV8Script)
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  private _parse(dumps: string[]): { [key: string]: V8Range[][] } {
+    const v8Report: { [key: string]: V8Range[][] } = {};
+
+    for (const content of dumps) {
+      const dump: unknown = JSON.parse(content);
+      const scripts = isJsonObject(dump) && Array.isArray(dump.result) ? dump.result : [];
+      for (const script of scripts.filter(isV8Script)) {
+        // Skip node internals, eval'd code and anything else not on disk
+        if (!script.url.startsWith("file://")) continue;
+
+        const sourceFile = toUnixPath(
+          GitPathTool.relativePath(PathMapTool.apply(fileURLToPath(script.url))),
+        );
+        if (!v8Report[sourceFile]) {
+          v8Report[sourceFile] = [];
+        }
+        v8Report[sourceFile]!.push(script.functions.flatMap((fn) => fn.ranges));
+      }
+    }
+    return v8Report;
+  }
+
+  override violations(srcPath: string): Violation[] {
+    if (!this._infoCache[srcPath]) {
+      const key = toUnixPath(srcPath);
+      const reportsLineHits: [number, number][][] = [];
+      let source: string | null = null;
+
+      for (const v8Report of this._v8Reports) {
+        const scriptRanges = v8Report[key];
+        if (!scriptRanges) continue;
+
+        // The source text is only needed for files in the diff
+        if (source === null) {
+          source = Snippet.loadContents(srcPath);
+        }
+        reportsLineHits.push(scriptRanges.flatMap((ranges) => v8LineHits(source!, ranges)));
+      }
+      this._infoCache[srcPath] = mergeLineHits(reportsLineHits, this._mergeStrategy);
+    }
+    return this._infoCache[srcPath][0];
+  }
+
+  override measuredLines(srcPath: string): number[] | null {
+    if (!this._infoCache[srcPath]) {
+      this.violations(srcPath);
+    }
+    return Array.from(this._infoCache[srcPath]![1]);
+  }
+
+  override reportedPaths(): string[] | null {
+    const paths = new Set<string>();
+    for (const v8Report of this._v8Reports) {
+      for (const srcPath of Object.keys(v8Report)) {
+        paths.add(srcPath);
+      }
+    }
+    return Array.from(paths);
+  }
+}
+
+const GO_PROFILE_LINE_RE = /^(.+):(\d+)\.(\d+),(\d+)\.(\d+) (\d+) (\d+)$/;
+
+/**
+ * Reads `go test -coverprofile` output. Every block covers a range of lines;
+ * a line shared by several blocks (e.g. an `if` opening a nested block) takes
+ * the highest count. Files are recorded by import path, which is mapped to a
+ * repository path through the module paths of the repository's go.mod files.
+ */
+export class GoCoverageReporter extends BaseViolationReporter {
+  private _goModules: { [key: string]: string };
+  private _mergeStrategy: MergeStrategy;
+  // One entry per report: srcPath -> line -> hits
+  private _goReports: { [key: string]: Map<number, number> }[] = [];
+  private _infoCache: { [key: string]: [Violation[], Set<number>] } = {};
+
+  constructor(
+    profileContentList: string[],
+    goModules: { [key: string]: string } | null = null,
+    mergeStrategy: MergeStrategy = "union",
+  ) {
+    super("Go coverprofile");
+    this._goModules = goModules || {};
+    this._mergeStrategy = mergeStrategy;
+    for (const content of profileContentList) {
+      this._goReports.push(this._parse(content));
+    }
+  }
+
+  static isGoCoverProfile(content: string): boolean {
+    const firstLine = content.trimStart().split("\n")[0] || "";
+    return /^mode: (set|count|atomic)\s*$/.test(firstLine);
+  }
+
+  /**
+   * Maps the module path of every go.mod tracked by git to its directory,
+   * relative to the repository root.
+   */
+  static findGoModules(): { [key: string]: string } {
+    const goModules: { [key: string]: string } = {};
+    let stdout: string;
+    try {
+      [stdout] = execute(["git", "ls-files", "--full-name", "--", "go.mod", "*/go.mod"]);
+    } catch {
+      return goModules;
+    }
+
+    for (const goModPath of stdout.split("\n")) {
+      if (path.posix.basename(goModPath.trim()) !== "go.mod") continue;
+      let content: string;
+      try {
+        content = fs.readFileSync(GitPathTool.absolutePath(goModPath.trim()), "utf-8");
+      } catch {
+        continue;
+      }
+      const match = content.match(/^module\s+"?([^\s"]+)"?/m);
+      if (match) {
+        goModules[match[1]!] = path.posix.dirname(goModPath.trim());
+      }
+    }
+    return goModules;
+  }
+
+  private _repoPath(importPath: string): string {
+    // The longest module path wins for nested modules
+    let modulePath: string | null = null;
+    for (const candidate of Object.keys(this._goModules)) {
+      if (
+        importPath.startsWith(`${candidate}/`) &&
+        (modulePath === null || candidate.length > modulePath.length)
+      ) {
+        modulePath = candidate;
+      }
+    }
+    if (modulePath === null) return importPath;
+
+    return path.posix.join(this._goModules[modulePath]!, importPath.slice(modulePath.length + 1));
+  }
+
+  private _parse(content: string): { [key: string]: Map<number, number> } {
+    const goReport: { [key: string]: Map<number, number> } = {};
+
+    for (const rawLine of content.split("\n")) {
+      const line = rawLine.trim();
+      if (!line || line.startsWith("mode:")) continue;
+
+      const match = line.match(GO_PROFILE_LINE_RE);
+      if (!match) {
+        throw new Error(`Invalid Go coverprofile line: ${line}`);
+      }
+
+      const [, importPath, startLine, , endLine, , numStmts, count] = match;
+      // Blocks without statements carry no coverage information
+      if (parseInt(numStmts!, 10) === 0) continue;
+
+      const sourceFile = this._repoPath(PathMapTool.apply(importPath!));
+      if (!goReport[sourceFile]) {
+        goReport[sourceFile] = new Map();
+      }
+      const lineHits = goReport[sourceFile]!;
+
+      const hits = parseInt(count!, 10);
+      for (let lineNo = parseInt(startLine!, 10); lineNo <= parseInt(endLine!, 10); lineNo++) {
+        lineHits.set(lineNo, Math.max(lineHits.get(lineNo) ?? 0, hits));
+      }
+    }
+    return goReport;
+  }
+
+  override violations(srcPath: string): Violation[] {
+    if (!this._infoCache[srcPath]) {
+      const reportsLineHits: [number, number][][] = [];
+      for (const goReport of this._goReports) {
+        const report = goReport[toUnixPath(srcPath)];
+        if (report) {
+          reportsLineHits.push(Array.from(report.entries()));
+        }
+      }
+      this._infoCache[srcPath] = mergeLineHits(reportsLineHits, this._mergeStrategy);
+    }
+    return this._infoCache[srcPath][0];
+  }
+
+  override measuredLines(srcPath: string): number[] | null {
+    if (!this._infoCache[srcPath]) {
+      this.violations(srcPath);
+    }
+    return Array.from(this._infoCache[srcPath]![1]);
+  }
+
+  override reportedPaths(): string[] | null {
+    const paths = new Set<string>();
+    for (const goReport of this._goReports) {
+      for (const srcPath of Object.keys(goReport)) {
+        paths.add(srcPath);
+      }
+    }
+    return Array.from(paths);
+  }
+}
+
+/**
+ * Combines several coverage reporters, e.g. lcov for a frontend and JaCoCo for
+ * a backend, into one. Lines measured by more than one reporter are merged
+ * according to the merge strategy.
+ */
+export class CompositeCoverageReporter extends BaseViolationReporter {
+  private _reporters: BaseViolationReporter[];
+  private _mergeStrategy: MergeStrategy;
+  private _infoCache: { [key: string]: [Violation[], Set<number>] } = {};
+
+  constructor(reporters: BaseViolationReporter[], mergeStrategy: MergeStrategy = "union") {
+    super(reporters.map((reporter) => reporter.name()).join(", "));
+    this._reporters = reporters;
+    this._mergeStrategy = mergeStrategy;
+  }
+
+  private _cacheFile(srcPath: string) {
+    if (this._infoCache[srcPath]) return;
+
+    const reportsLineHits: [number, number][][] = [];
+    for (const reporter of this._reporters) {
+      const violationLines = new Set(reporter.violations(srcPath).map((v) => v.line));
+      const measuredLines = reporter.measuredLines(srcPath) || [];
+      reportsLineHits.push(
+        measuredLines.map((lineNo) => [lineNo, violationLines.has(lineNo) ? 0 : 1]),
+      );
+    }
+    this._infoCache[srcPath] = mergeLineHits(reportsLineHits, this._mergeStrategy);
+  }
+
+  override violationsBatch(srcPaths: string[]): { [key: string]: Violation[] } {
+    // Lets each reporter read all files in one pass
+    for (const reporter of this._reporters) {
+      reporter.violationsBatch(srcPaths);
+    }
+    return super.violationsBatch(srcPaths);
+  }
+
+  override violations(srcPath: string): Violation[] {
+    this._cacheFile(srcPath);
+    return this._infoCache[srcPath]![0];
+  }
+
+  override measuredLines(srcPath: string): number[] | null {
+    this._cacheFile(srcPath);
+    return Array.from(this._infoCache[srcPath]![1]);
+  }
+
+  override branches(srcPath: string): BranchCoverage[] | null {
+    let merged: Map<number, BranchCoverage> | null = null;
+
+    for (const reporter of this._reporters) {
+      const reporterBranches = reporter.branches(srcPath);
+      if (!reporterBranches) continue;
+
+      merged = merged || new Map();
+      for (const branch of reporterBranches) {
+        const existing = merged.get(branch.line);
+        merged.set(
+          branch.line,
+          new BranchCoverage(
+            branch.line,
+            Math.max(branch.covered, existing?.covered ?? 0),
+            Math.max(branch.total, existing?.total ?? 0),
+          ),
+        );
+      }
+    }
+    return merged ? Array.from(merged.values()) : null;
+  }
+
+  override functions(srcPath: string): FunctionCoverage[] | null {
+    return mergeFunctionCalls(
+      this._reporters.map((reporter) => reporter.functions(srcPath)),
+      this._mergeStrategy,
+    );
+  }
+
+  override reportedPaths(): string[] | null {
+    const paths = new Set<string>();
+    for (const reporter of this._reporters) {
+      for (const srcPath of reporter.reportedPaths() || []) {
+        paths.add(srcPath);
+      }
+    }
+    return Array.from(paths);
+  }
+
+  override warnings(): string[] {
+    return this._reporters.flatMap((reporter) => reporter.warnings());
+  }
+}
+
+/**
+ * Translates coverage measured on generated files (e.g. a bundled dist/*.js)
+ * back to the original sources through their source maps. Lines which only
+ * exist in the generated output are dropped, and reported files without a
+ * source map are passed through unchanged.
+ */
+export class SourceMappedCoverageReporter extends BaseViolationReporter {
+  private _reporter: BaseViolationReporter;
+  private _loadSourceMap: (generatedPath: string) => SourceMap | null;
+  // Absolute original path -> line -> hits (0 or 1)
+  private _remappedLines: { [key: string]: Map<number, number> } | null = null;
+  // Absolute original path -> line -> BranchCoverage
+  private _remappedBranches: { [key: string]: Map<number, BranchCoverage> } = {};
+  // Absolute original path -> functions
+  private _remappedFunctions: { [key: string]: FunctionCoverage[] } = {};
+  // Absolute paths of the generated files that were remapped
+  private _generatedPaths = new Set<string>();
+  private _warnings: string[] = [];
+  private _infoCache: { [key: string]: [Violation[], Set<number>] } = {};
+
+  constructor(
+    reporter: BaseViolationReporter,
+    loadSourceMap: (generatedPath: string) => SourceMap | null = (generatedPath) =>
+      SourceMap.forGeneratedFile(generatedPath),
+  ) {
+    super(reporter.name());
+    this._reporter = reporter;
+    this._loadSourceMap = loadSourceMap;
+  }
+
+  private _remap(): { [key: string]: Map<number, number> } {
+    if (this._remappedLines) return this._remappedLines;
+
+    const sourceMaps = new Map<string, SourceMap>();
+    for (const generatedPath of this._reporter.reportedPaths() || []) {
+      try {
+        const sourceMap = this._loadSourceMap(generatedPath);
+        if (sourceMap) sourceMaps.set(generatedPath, sourceMap);
+      } catch (e: any) {
+        this._warnings.push(`Could not read the source map of ${generatedPath}: ${e.message}`);
+      }
+    }
+
+    const remappedLines: { [key: string]: Map<number, number> } = {};
+    const violationsBatch = this._reporter.violationsBatch([...sourceMaps.keys()]);
+    for (const [generatedPath, sourceMap] of sourceMaps) {
+      this._generatedPaths.add(toUnixPath(path.resolve(generatedPath)));
+
+      const violationLines = new Set(violationsBatch[generatedPath]!.map((v) => v.line));
+      for (const lineNo of this._reporter.measuredLines(generatedPath) || []) {
+        const hits = violationLines.has(lineNo) ? 0 : 1;
+        for (const position of sourceMap.originalPositions(lineNo)) {
+          if (!remappedLines[position.source]) {
+            remappedLines[position.source] = new Map();
+          }
+          const lineHits = remappedLines[position.source]!;
+          lineHits.set(position.line, Math.max(lineHits.get(position.line) ?? 0, hits));
+        }
+      }
+
+      for (const branch of this._reporter.branches(generatedPath) || []) {
+        const position = sourceMap.originalPositions(branch.line)[0];
+        if (!position) continue;
+
+        if (!this._remappedBranches[position.source]) {
+          this._remappedBranches[position.source] = new Map();
+        }
+        const branches = this._remappedBranches[position.source]!;
+        const existing = branches.get(position.line);
+        branches.set(
+          position.line,
+          new BranchCoverage(
+            position.line,
+            Math.max(branch.covered, existing?.covered ?? 0),
+            Math.max(branch.total, existing?.total ?? 0),
+          ),
+        );
+      }
+
+      for (const fn of this._reporter.functions(generatedPath) || []) {
+        const position = sourceMap.originalPositions(fn.line)[0];
+        if (!position) continue;
+
+        this._remappedFunctions[position.source] = [
+          ...(this._remappedFunctions[position.source] || []),
+          new FunctionCoverage(fn.name, position.line, fn.calls),
+        ];
+      }
+    }
+
+    this._remappedLines = remappedLines;
+    return remappedLines;
+  }
+
+  private _cacheFile(srcPath: string) {
+    if (this._infoCache[srcPath]) return;
+
+    const absPath = GitPathTool.absolutePath(srcPath);
+    const lineHits = this._remap()[absPath];
+
+    if (lineHits) {
+      const violations: Violation[] = [];
+      for (const [lineNo, hits] of lineHits) {
+        if (hits === 0) {
+          violations.push(new Violation(lineNo, null));
+        }
+      }
+      this._infoCache[srcPath] = [violations, new Set(lineHits.keys())];
+    } else if (this._generatedPaths.has(absPath)) {
+      // Coverage of generated files is attributed to their original sources
+      this._infoCache[srcPath] = [[], new Set()];
+    } else {
+      this._infoCache[srcPath] = [
+        this._reporter.violations(srcPath),
+        new Set(this._reporter.measuredLines(srcPath) || []),
+      ];
+    }
+  }
+
+  override violationsBatch(srcPaths: string[]): { [key: string]: Violation[] } {
+    // Lets the wrapped reporter read all files in one pass
+    this._reporter.violationsBatch(srcPaths);
+    return super.violationsBatch(srcPaths);
+  }
+
+  override violations(srcPath: string): Violation[] {
+    this._cacheFile(srcPath);
+    return this._infoCache[srcPath]![0];
+  }
+
+  override measuredLines(srcPath: string): number[] | null {
+    this._cacheFile(srcPath);
+    return Array.from(this._infoCache[srcPath]![1]);
+  }
+
+  override branches(srcPath: string): BranchCoverage[] | null {
+    const absPath = GitPathTool.absolutePath(srcPath);
+    if (this._remap()[absPath]) {
+      const branches = this._remappedBranches[absPath];
+      return branches ? Array.from(branches.values()) : null;
+    }
+    if (this._generatedPaths.has(absPath)) return null;
+    return this._reporter.branches(srcPath);
+  }
+
+  override functions(srcPath: string): FunctionCoverage[] | null {
+    const absPath = GitPathTool.absolutePath(srcPath);
+    if (this._remap()[absPath]) {
+      return this._remappedFunctions[absPath] || null;
+    }
+    if (this._generatedPaths.has(absPath)) return null;
+    return this._reporter.functions(srcPath);
+  }
+
+  override reportedPaths(): string[] | null {
+    const remappedLines = this._remap();
+    const paths = (this._reporter.reportedPaths() || []).filter(
+      (p) => !this._generatedPaths.has(toUnixPath(path.resolve(p))),
+    );
+    for (const originalPath of Object.keys(remappedLines)) {
+      paths.push(toUnixPath(path.relative(process.cwd(), originalPath)));
+    }
+    return paths;
+  }
+
+  override warnings(): string[] {
+    return [...this._reporter.warnings(), ...this._warnings];
+  }
+}
+
+/**
+ * Extensions of the files --missing-files-as-uncovered looks at by default.
+ */
+export const DEFAULT_SOURCE_EXTENSIONS = [
+  "js",
+  "jsx",
+  "mjs",
+  "cjs",
+  "ts",
+  "tsx",
+  "mts",
+  "cts",
+  "vue",
+  "svelte",
+  "py",
+  "go",
+  "java",
+  "kt",
+  "scala",
+  "rs",
+  "c",
+  "cc",
+  "cpp",
+  "h",
+  "hpp",
+  "cs",
+  "rb",
+  "php",
+  "swift",
+];
+
+const COMMENT_LINE_RE = /^(\/\/|#|\/\*|\*|--|<!--)/;
+const PUNCTUATION_LINE_RE = /^[{}()[\];,]*$/;
+
+/**
+ * Best guess at the executable lines of a file no coverage tool has seen:
+ * every line except blank lines, comments and lone brackets.
+ */
+function executableLines(source: string): number[] {
+  const lines: number[] = [];
+  source.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || COMMENT_LINE_RE.test(trimmed) || PUNCTUATION_LINE_RE.test(trimmed)) return;
+    lines.push(index + 1);
+  });
+  return lines;
+}
+
+/**
+ * Treats changed source files which no coverage report mentions, such as a
+ * new module no test imports, as entirely uncovered instead of skipping them.
+ */
+export class MissingFilesAsUncoveredReporter extends BaseViolationReporter {
+  private _reporter: BaseViolationReporter;
+  private _extensions: Set<string>;
+  private _reportedPaths: Set<string> | null = null;
+  private _missingPaths = new Set<string>();
+  private _infoCache: { [key: string]: [Violation[], Set<number>] } = {};
+
+  constructor(reporter: BaseViolationReporter, extensions: string[] = DEFAULT_SOURCE_EXTENSIONS) {
+    super(reporter.name());
+    this._reporter = reporter;
+    this._extensions = new Set(extensions.map((ext) => ext.replace(/^\./, "").toLowerCase()));
+  }
+
+  private _isMissing(srcPath: string): boolean {
+    const extension = path.extname(srcPath).slice(1).toLowerCase();
+    if (!this._extensions.has(extension)) return false;
+
+    const measuredLines = this._reporter.measuredLines(srcPath);
+    if (measuredLines && measuredLines.length > 0) return false;
+
+    // Reported files without measured lines, e.g. type-only modules, are fine
+    if (!this._reportedPaths) {
+      this._reportedPaths = new Set((this._reporter.reportedPaths() || []).map(toUnixPath));
+    }
+    return !this._reportedPaths.has(toUnixPath(srcPath));
+  }
+
+  private _cacheFile(srcPath: string) {
+    if (this._infoCache[srcPath]) return;
+
+    if (this._isMissing(srcPath)) {
+      const lines = executableLines(Snippet.loadContents(srcPath));
+      this._missingPaths.add(srcPath);
+      this._infoCache[srcPath] = [
+        lines.map((lineNo) => new Violation(lineNo, null)),
+        new Set(lines),
+      ];
+    } else {
+      this._infoCache[srcPath] = [
+        this._reporter.violations(srcPath),
+        new Set(this._reporter.measuredLines(srcPath) || []),
+      ];
+    }
+  }
+
+  override violationsBatch(srcPaths: string[]): { [key: string]: Violation[] } {
+    // Lets the wrapped reporter read all files in one pass
+    this._reporter.violationsBatch(srcPaths);
+    return super.violationsBatch(srcPaths);
+  }
+
+  override violations(srcPath: string): Violation[] {
+    this._cacheFile(srcPath);
+    return this._infoCache[srcPath]![0];
+  }
+
+  override measuredLines(srcPath: string): number[] | null {
+    this._cacheFile(srcPath);
+    return Array.from(this._infoCache[srcPath]![1]);
+  }
+
+  override branches(srcPath: string): BranchCoverage[] | null {
+    this._cacheFile(srcPath);
+    return this._missingPaths.has(srcPath) ? null : this._reporter.branches(srcPath);
+  }
+
+  override functions(srcPath: string): FunctionCoverage[] | null {
+    this._cacheFile(srcPath);
+    return this._missingPaths.has(srcPath) ? null : this._reporter.functions(srcPath);
+  }
+
+  override reportedPaths(): string[] | null {
+    return this._reporter.reportedPaths();
+  }
+
+  override warnings(): string[] {
+    return this._reporter.warnings();
+  }
+}
+
+/**
+ * Drops lines exempted by ignore pragmas or exclude patterns in the source
+ * files from both violations and measured lines, keeping them aside so the
+ * reports can count them separately.
+ */
+export class IgnorePragmasReporter extends BaseViolationReporter {
+  private _reporter: BaseViolationReporter;
+  private _excludePatterns: RegExp[];
+  // srcPath -> [violations, measured lines, ignored measured lines]
+  private _infoCache: { [key: string]: [Violation[], Set<number>, number[]] } = {};
+
+  constructor(reporter: BaseViolationReporter, excludePatterns: RegExp[]) {
+    super(reporter.name());
+    this._reporter = reporter;
+    this._excludePatterns = excludePatterns;
+  }
+
+  private _cacheFile(srcPath: string) {
+    if (this._infoCache[srcPath]) return;
+
+    const violations = this._reporter.violations(srcPath);
+    const measuredLines = this._reporter.measuredLines(srcPath);
+    // Files the report knows nothing about are not worth reading
+    if (violations.length === 0 && (!measuredLines || measuredLines.length === 0)) {
+      this._infoCache[srcPath] = [violations, new Set(measuredLines || []), []];
+      return;
+    }
+
+    const ignored = ignoredLines(Snippet.loadContents(srcPath), this._excludePatterns, srcPath);
+    this._infoCache[srcPath] = [
+      violations.filter((v) => !ignored.has(v.line)),
+      new Set((measuredLines || []).filter((lineNo) => !ignored.has(lineNo))),
+      (measuredLines || []).filter((lineNo) => ignored.has(lineNo)),
+    ];
+  }
+
+  override violationsBatch(srcPaths: string[]): { [key: string]: Violation[] } {
+    // Lets the wrapped reporter read all files in one pass
+    this._reporter.violationsBatch(srcPaths);
+    return super.violationsBatch(srcPaths);
+  }
+
+  override violations(srcPath: string): Violation[] {
+    this._cacheFile(srcPath);
+    return this._infoCache[srcPath]![0];
+  }
+
+  override measuredLines(srcPath: string): number[] | null {
+    this._cacheFile(srcPath);
+    if (this._reporter.measuredLines(srcPath) === null) return null;
+    return Array.from(this._infoCache[srcPath]![1]);
+  }
+
+  override ignoredLines(srcPath: string): number[] | null {
+    this._cacheFile(srcPath);
+    return this._infoCache[srcPath]![2];
+  }
+
+  override branches(srcPath: string): BranchCoverage[] | null {
+    const branches = this._reporter.branches(srcPath);
+    if (!branches) return null;
+
+    this._cacheFile(srcPath);
+    const ignored = new Set(this._infoCache[srcPath]![2]);
+    return branches.filter((b) => !ignored.has(b.line));
+  }
+
+  override functions(srcPath: string): FunctionCoverage[] | null {
+    const functions = this._reporter.functions(srcPath);
+    if (!functions) return null;
+
+    this._cacheFile(srcPath);
+    const ignored = new Set(this._infoCache[srcPath]![2]);
+    return functions.filter((fn) => !ignored.has(fn.line));
+  }
+
+  override reportedPaths(): string[] | null {
+    return this._reporter.reportedPaths();
+  }
+
+  override warnings(): string[] {
+    return this._reporter.warnings();
+  }
+}
+
+export abstract class QualityDriver {
+  constructor(
+    public name: string,
+    public supportedExtensions: string[],
+    public command: string[],
+    public exitCodes: number[] = [0],
+    public outputStderr: boolean = false,
+  ) {}
+
+  abstract parseReports(reports: string[]): { [key: string]: Violation[] };
+
+  abstract installed(): boolean;
+
+  addDriverArgs(args: Record<string, any>): void {
+    throw new Error(`Unsupported argument(s) ${Object.keys(args).join(", ")}`);
+  }
+}
+
+/**
+ * Applies the path map to the paths reported by a quality driver.
+ */
+function mapReportedPaths(violationsDict: { [key: string]: Violation[] }): {
+  [key: string]: Violation[];
+} {
+  const mapped: { [key: string]: Violation[] } = {};
+  for (const [srcPath, violations] of Object.entries(violationsDict)) {
+    const mappedPath = toUnixPath(PathMapTool.apply(srcPath));
+    mapped[mappedPath] = [...(mapped[mappedPath] || []), ...violations];
   }
+  return mapped;
 }
 
 export class QualityReporter extends BaseViolationReporter {
@@ -411,7 +2248,7 @@ export class QualityReporter extends BaseViolationReporter {
 
     if (!this.violationsDict[relativeSrcPath]) {
       if (this.reports) {
-        this.violationsDict = this.driver.parseReports(this.reports);
+        this.violationsDict = mapReportedPaths(this.driver.parseReports(this.reports));
         return this.violationsDict[relativeSrcPath] || [];
       }
 
@@ -436,7 +2273,7 @@ export class QualityReporter extends BaseViolationReporter {
       try {
         const [stdout, stderr] = execute(command, this.driver.exitCodes);
         const output = this.driver.outputStderr ? stderr : stdout;
-        const newViolations = this.driver.parseReports([output]);
+        const newViolations = mapReportedPaths(this.driver.parseReports([output]));
         // merge
         Object.assign(this.violationsDict, newViolations);
       } catch (e: any) {
@@ -0,0 +1,666 @@
+import * as fs from "fs";
+import * as path from "path";
+import { createRequire } from "module";
+import { fileURLToPath, pathToFileURL } from "url";
+import type TypeScript from "typescript";
+import { isJsonObject, type JsonObject } from "./util";
+
+export interface CoverageReporter {
+  name: string;
+  // Custom report file name, e.g. from ['lcov', { file: 'unit.info' }]
+  file: string | null;
+}
+
+/**
+ * Coverage settings of a Vite/Vitest config, or of one of its projects.
+ */
+export interface ViteCoverageConfig {
+  // Absolute path of the config file the settings were read from
+  configFile: string;
+  // Absolute project root, which reportsDirectory is relative to
+  root: string;
+  // Null when the config does not set them
+  reporters: CoverageReporter[] | null;
+  reportsDirectory: string | null;
+}
+
+export const CONFIG_NAMES = ["vitest.config", "vite.config"];
+const WORKSPACE_NAMES = ["vitest.workspace", "vitest.projects"];
+const SCRIPT_EXTENSIONS = [".ts", ".mts", ".cts", ".js", ".mjs", ".cjs"];
+
+// Wrappers which return (or call) their config argument
+const CONFIG_HELPERS = new Set([
+  "defineConfig",
+  "defineProject",
+  "defineWorkspace",
+  "defineVitestConfig",
+]);
+
+// Nested imports of config files are followed up to this depth
+const MAX_IMPORT_DEPTH = 5;
+
+let typescript: typeof TypeScript | null | undefined;
+
+/**
+ * The typescript peer dependency is only loaded when a config has to be read,
+ * and is optional: without it callers fall back to scanning the text.
+ */
+function loadTypeScript(): typeof TypeScript | null {
+  if (typescript === undefined) {
+    try {
+      typescript = createRequire(import.meta.url)("typescript") as typeof TypeScript;
+    } catch {
+      typescript = null;
+    }
+  }
+  return typescript;
+}
+
+class FunctionValue {
+  constructor(
+    public node: TypeScript.FunctionLikeDeclaration,
+    public scope: Scope,
+  ) {}
+}
+
+type Binding =
+  // `property` is set for destructured declarations: const { a } = node
+  | { node: TypeScript.Node; property?: string }
+  | { importFrom: string; name: string }
+  | { value: unknown; evaluated: true };
+
+class Scope {
+  private _bindings = new Map<string, Binding>();
+
+  constructor(public parent: Scope | null) {}
+
+  set(name: string, binding: Binding) {
+    this._bindings.set(name, binding);
+  }
+
+  lookup(name: string): Binding | null {
+    return this._bindings.get(name) ?? this.parent?.lookup(name) ?? null;
+  }
+}
+
+/**
+ * Text of a string, number, boolean or null value, as it is interpolated into
+ * strings. Undefined for other values, which are not statically known.
+ */
+function primitiveText(value: unknown): string | undefined {
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean" || value === null) {
+    return String(value);
+  }
+  return undefined;
+}
+
+/**
+ * Deep merge with Vite's mergeConfig semantics: objects are merged
+ * recursively and arrays are concatenated.
+ */
+function mergeConfig(defaults: unknown, overrides: unknown): unknown {
+  if (!isJsonObject(defaults)) return overrides;
+  if (!isJsonObject(overrides)) return defaults;
+
+  const merged: JsonObject = { ...defaults };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value === undefined) continue;
+    const existing = merged[key];
+    if (Array.isArray(existing) && Array.isArray(value)) {
+      merged[key] = [...existing, ...value];
+    } else if (isJsonObject(existing) && isJsonObject(value)) {
+      merged[key] = mergeConfig(existing, value);
+    } else {
+      merged[key] = value;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Evaluates the statically known parts of a config module without running
+ * it: literals, objects, arrays, spreads, local variables, relative imports,
+ * config helpers like defineConfig/mergeConfig and path helpers. Anything
+ * else evaluates to undefined.
+ */
+class ConfigModule {
+  private _ts: typeof TypeScript;
+  private _filePath: string;
+  private _scope = new Scope(null);
+  private _exports = new Map<string, TypeScript.Node>();
+  private _loading = new Set<TypeScript.Node>();
+  private _depth: number;
+
+  constructor(ts: typeof TypeScript, filePath: string, content: string, depth: number) {
+    this._ts = ts;
+    this._filePath = filePath;
+    this._depth = depth;
+
+    const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true);
+    for (const statement of sourceFile.statements) {
+      this._declare(statement, this._scope, true);
+    }
+  }
+
+  defaultExport(): unknown {
+    const node = this._exports.get("default");
+    return node ? this._evaluate(node, this._scope) : undefined;
+  }
+
+  namedExport(name: string): unknown {
+    const node = this._exports.get(name);
+    return node ? this._evaluate(node, this._scope) : undefined;
+  }
+
+  private _declare(statement: TypeScript.Statement, scope: Scope, topLevel: boolean) {
+    const ts = this._ts;
+    const exported =
+      topLevel &&
+      ts.canHaveModifiers(statement) &&
+      (ts.getModifiers(statement) || []).some((m) => m.kind === ts.SyntaxKind.ExportKeyword);
+
+    if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (!declaration.initializer) continue;
+        if (ts.isIdentifier(declaration.name)) {
+          scope.set(declaration.name.text, { node: declaration.initializer });
+          if (exported) this._exports.set(declaration.name.text, declaration.initializer);
+        } else if (ts.isObjectBindingPattern(declaration.name)) {
+          // const { a, b: c } = obj
+          for (const element of declaration.name.elements) {
+            if (!ts.isIdentifier(element.name)) continue;
+            const property = element.propertyName ?? element.name;
+            if (!ts.isIdentifier(property)) continue;
+            scope.set(element.name.text, {
+              node: declaration.initializer,
+              property: property.text,
+            });
+          }
+        }
+      }
+    } else if (ts.isFunctionDeclaration(statement) && statement.name) {
+      scope.set(statement.name.text, { node: statement });
+      if (exported) this._exports.set(statement.name.text, statement);
+    } else if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+      const importFrom = statement.moduleSpecifier.text;
+      const clause = statement.importClause;
+      if (!clause) return;
+      if (clause.name) {
+        scope.set(clause.name.text, { importFrom, name: "default" });
+      }
+      const bindings = clause.namedBindings;
+      if (bindings && ts.isNamespaceImport(bindings)) {
+        scope.set(bindings.name.text, { importFrom, name: "*" });
+      } else if (bindings) {
+        for (const element of bindings.elements) {
+          const name = (element.propertyName ?? element.name).text;
+          scope.set(element.name.text, { importFrom, name });
+        }
+      }
+    } else if (topLevel && ts.isExportAssignment(statement)) {
+      this._exports.set("default", statement.expression);
+    } else if (
+      topLevel &&
+      ts.isExpressionStatement(statement) &&
+      ts.isBinaryExpression(statement.expression) &&
+      statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+      statement.expression.left.getText() === "module.exports"
+    ) {
+      this._exports.set("default", statement.expression.right);
+    }
+  }
+
+  private _evaluate(node: TypeScript.Node, scope: Scope): unknown {
+    const ts = this._ts;
+
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+      return node.text;
+    }
+    if (ts.isNumericLiteral(node)) return Number(node.text);
+    if (node.kind === ts.SyntaxKind.TrueKeyword) return true;
+    if (node.kind === ts.SyntaxKind.FalseKeyword) return false;
+    if (node.kind === ts.SyntaxKind.NullKeyword) return null;
+
+    if (
+      ts.isParenthesizedExpression(node) ||
+      ts.isAsExpression(node) ||
+      ts.isSatisfiesExpression(node) ||
+      ts.isTypeAssertionExpression(node) ||
+      ts.isNonNullExpression(node) ||
+      ts.isAwaitExpression(node)
+    ) {
+      return this._evaluate(node.expression, scope);
+    }
+
+    if (ts.isTemplateExpression(node)) {
+      let text = node.head.text;
+      for (const span of node.templateSpans) {
+        const value = primitiveText(this._evaluate(span.expression, scope));
+        if (value === undefined) return undefined;
+        text += value + span.literal.text;
+      }
+      return text;
+    }
+
+    if (ts.isObjectLiteralExpression(node)) {
+      const result: JsonObject = {};
+      for (const property of node.properties) {
+        if (ts.isPropertyAssignment(property)) {
+          const key = this._propertyName(property.name, scope);
+          if (key !== undefined) result[key] = this._evaluate(property.initializer, scope);
+        } else if (ts.isShorthandPropertyAssignment(property)) {
+          result[property.name.text] = this._evaluate(property.name, scope);
+        } else if (ts.isSpreadAssignment(property)) {
+          const spread = this._evaluate(property.expression, scope);
+          if (isJsonObject(spread)) Object.assign(result, spread);
+        }
+      }
+      return result;
+    }
+
+    if (ts.isArrayLiteralExpression(node)) {
+      const result: unknown[] = [];
+      for (const element of node.elements) {
+        if (ts.isSpreadElement(element)) {
+          const spread = this._evaluate(element.expression, scope);
+          if (Array.isArray(spread)) result.push(...spread);
+        } else if (!ts.isOmittedExpression(element)) {
+          result.push(this._evaluate(element, scope));
+        }
+      }
+      return result;
+    }
+
+    if (ts.isIdentifier(node)) {
+      if (node.text === "__dirname") return path.dirname(this._filePath);
+      if (node.text === "__filename") return this._filePath;
+      return this._resolveBinding(node.text, scope);
+    }
+
+    if (ts.isPropertyAccessExpression(node)) {
+      const property = node.name.text;
+      if (ts.isMetaProperty(node.expression)) {
+        if (property === "url") return pathToFileURL(this._filePath).href;
+        if (property === "dirname") return path.dirname(this._filePath);
+        if (property === "filename") return this._filePath;
+        return undefined;
+      }
+      // Environment variables are read, as the config would when it runs
+      if (ts.isIdentifier(node.expression) && node.expression.text === "process") {
+        return property === "env" ? { ...process.env } : undefined;
+      }
+
+      const object = this._evaluate(node.expression, scope);
+      if (isJsonObject(object)) return object[property];
+      return Array.isArray(object) ? Reflect.get(object, property) : undefined;
+    }
+
+    if (ts.isElementAccessExpression(node)) {
+      const object = this._evaluate(node.expression, scope);
+      const key = this._evaluate(node.argumentExpression, scope);
+      if (typeof object !== "object" || object === null) return undefined;
+      if (typeof key !== "string" && typeof key !== "number") return undefined;
+      return Reflect.get(object, key);
+    }
+
+    if (ts.isBinaryExpression(node)) {
+      const operator = node.operatorToken.kind;
+      const left = this._evaluate(node.left, scope);
+      if (operator === ts.SyntaxKind.QuestionQuestionToken) {
+        return left ?? this._evaluate(node.right, scope);
+      }
+      if (operator === ts.SyntaxKind.BarBarToken) {
+        return left || this._evaluate(node.right, scope);
+      }
+      if (operator === ts.SyntaxKind.AmpersandAmpersandToken) {
+        return left && this._evaluate(node.right, scope);
+      }
+      if (operator === ts.SyntaxKind.PlusToken) {
+        const right = this._evaluate(node.right, scope);
+        if (typeof left === "number" && typeof right === "number") return left + right;
+        if (typeof left !== "string" && typeof right !== "string") return undefined;
+        const [leftText, rightText] = [primitiveText(left), primitiveText(right)];
+        return leftText === undefined || rightText === undefined ? undefined : leftText + rightText;
+      }
+      return undefined;
+    }
+
+    if (ts.isConditionalExpression(node)) {
+      const condition = this._evaluate(node.condition, scope);
+      return this._evaluate(condition ? node.whenTrue : node.whenFalse, scope);
+    }
+
+    if (ts.isPrefixUnaryExpression(node) && node.operator === ts.SyntaxKind.ExclamationToken) {
+      return !this._evaluate(node.operand, scope);
+    }
+
+    if (
+      ts.isArrowFunction(node) ||
+      ts.isFunctionExpression(node) ||
+      ts.isFunctionDeclaration(node)
+    ) {
+      return new FunctionValue(node, scope);
+    }
+
+    if (ts.isNewExpression(node)) {
+      // new URL('./coverage', import.meta.url)
+      if (ts.isIdentifier(node.expression) && node.expression.text === "URL") {
+        const args = (node.arguments || []).map((arg) => this._evaluate(arg, scope));
+        if (args.length > 0 && args.every((arg): arg is string => typeof arg === "string")) {
+          try {
+            return new URL(args[0]!, args[1]).href;
+          } catch {
+            return undefined;
+          }
+        }
+      }
+      return undefined;
+    }
+
+    if (ts.isCallExpression(node)) {
+      return this._call(node, scope);
+    }
+
+    return undefined;
+  }
+
+  private _propertyName(name: TypeScript.PropertyName, scope: Scope): string | undefined {
+    const ts = this._ts;
+    if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+      return name.text;
+    }
+    if (ts.isComputedPropertyName(name)) {
+      const key = this._evaluate(name.expression, scope);
+      return typeof key === "string" ? key : undefined;
+    }
+    return undefined;
+  }
+
+  private _resolveBinding(name: string, scope: Scope): unknown {
+    const binding = scope.lookup(name);
+    if (!binding) return undefined;
+    if ("evaluated" in binding) return binding.value;
+    if ("importFrom" in binding) return this._import(binding.importFrom, binding.name);
+
+    // Guards against self-referencing declarations
+    if (this._loading.has(binding.node)) return undefined;
+    this._loading.add(binding.node);
+    try {
+      const value = this._evaluate(binding.node, scope);
+      if (binding.property === undefined) return value;
+      return isJsonObject(value) ? value[binding.property] : undefined;
+    } finally {
+      this._loading.delete(binding.node);
+    }
+  }
+
+  private _import(specifier: string, name: string): unknown {
+    if (!specifier.startsWith(".") || this._depth >= MAX_IMPORT_DEPTH) return undefined;
+
+    const basePath = path.resolve(path.dirname(this._filePath), specifier);
+    const candidates = [basePath, ...SCRIPT_EXTENSIONS.map((ext) => basePath + ext)];
+    // TypeScript sources are imported with .js extensions
+    if (/\.[cm]?js$/.test(basePath)) {
+      candidates.push(basePath.replace(/js$/, "ts"));
+    }
+
+    for (const candidate of candidates) {
+      if (!fs.existsSync(candidate) || path.extname(candidate) === "") continue;
+      const content = fs.readFileSync(candidate, "utf-8");
+      if (candidate.endsWith(".json")) {
+        const json: unknown = JSON.parse(content);
+        if (name === "default" || name === "*") return json;
+        return isJsonObject(json) ? json[name] : undefined;
+      }
+
+      const module = new ConfigModule(this._ts, candidate, content, this._depth + 1);
+      if (name === "*") return { default: module.defaultExport() };
+      return name === "default" ? module.defaultExport() : module.namedExport(name);
+    }
+    return undefined;
+  }
+
+  /**
+   * Name of the called function, following import aliases such as
+   * `import { defineConfig as define } from "vitest/config"`.
+   */
+  private _calleeName(callee: TypeScript.Expression, scope: Scope): string | null {
+    const ts = this._ts;
+    if (ts.isPropertyAccessExpression(callee)) return callee.name.text;
+    if (!ts.isIdentifier(callee)) return null;
+
+    const binding = scope.lookup(callee.text);
+    if (binding && "importFrom" in binding && !binding.importFrom.startsWith(".")) {
+      return binding.name;
+    }
+    return callee.text;
+  }
+
+  private _call(node: TypeScript.CallExpression, scope: Scope): unknown {
+    const name = this._calleeName(node.expression, scope);
+    const args = node.arguments.map((arg) => this._evaluate(arg, scope));
+
+    if (name && CONFIG_HELPERS.has(name)) {
+      const config = args[0];
+      return config instanceof FunctionValue
+        ? this._apply(config, [{ mode: "test", command: "serve" }])
+        : config;
+    }
+    if (name === "mergeConfig") {
+      return args.reduce<unknown>((merged, config) => mergeConfig(merged, config), undefined);
+    }
+
+    if (args.every((arg): arg is string => typeof arg === "string")) {
+      if (name === "resolve" || name === "join") {
+        return path[name](...args);
+      }
+      if (name === "dirname" && args.length === 1) {
+        return path.dirname(args[0]!);
+      }
+      if (name === "fileURLToPath" && args.length === 1) {
+        const url = args[0]!;
+        return url.startsWith("file:") ? fileURLToPath(url) : url;
+      }
+    }
+
+    const callee = this._evaluate(node.expression, scope);
+    return callee instanceof FunctionValue ? this._apply(callee, args) : undefined;
+  }
+
+  private _apply(fn: FunctionValue, args: unknown[]): unknown {
+    const ts = this._ts;
+    const scope = new Scope(fn.scope);
+
+    fn.node.parameters.forEach((parameter, index) => {
+      const arg = args[index];
+      if (ts.isIdentifier(parameter.name)) {
+        scope.set(parameter.name.text, { value: arg, evaluated: true });
+      } else if (ts.isObjectBindingPattern(parameter.name)) {
+        for (const element of parameter.name.elements) {
+          if (!ts.isIdentifier(element.name)) continue;
+          const property = element.propertyName ?? element.name;
+          const key = ts.isIdentifier(property) ? property.text : element.name.text;
+          scope.set(element.name.text, {
+            value: isJsonObject(arg) ? arg[key] : undefined,
+            evaluated: true,
+          });
+        }
+      }
+    });
+
+    const body = fn.node.body;
+    if (!body) return undefined;
+    if (!ts.isBlock(body)) return this._evaluate(body, scope);
+
+    for (const statement of body.statements) {
+      this._declare(statement, scope, false);
+    }
+    for (const statement of body.statements) {
+      if (ts.isReturnStatement(statement)) {
+        return statement.expression ? this._evaluate(statement.expression, scope) : undefined;
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * The first existing config file with one of the given names, in order, and
+ * any script extension.
+ */
+export function findConfigFile(directory: string, names: string[]): string | null {
+  for (const name of names) {
+    for (const extension of SCRIPT_EXTENSIONS) {
+      const configPath = path.join(directory, name + extension);
+      if (fs.existsSync(configPath)) return configPath;
+    }
+  }
+  return null;
+}
+
+function parseReporters(value: unknown): CoverageReporter[] | null {
+  if (value === undefined || value === null) return null;
+
+  const reporters: CoverageReporter[] = [];
+  for (const item of Array.isArray(value) ? value : [value]) {
+    if (typeof item === "string") {
+      reporters.push({ name: item, file: null });
+    } else if (Array.isArray(item) && typeof item[0] === "string") {
+      // ['lcov', { file: 'unit.info' }]
+      const options: unknown = item[1];
+      const file = isJsonObject(options) && typeof options.file === "string" ? options.file : null;
+      reporters.push({ name: item[0], file });
+    }
+  }
+  return reporters;
+}
+
+/**
+ * Expands a Vitest project entry, a directory, a config file or a glob with
+ * `*` segments, to the project directories or config files it matches.
+ */
+function expandProjectPattern(pattern: string, root: string): string[] {
+  let matches = [root];
+  for (const segment of pattern.replace(/^\.\//, "").split("/")) {
+    if (!segment || segment === ".") continue;
+    if (!segment.includes("*")) {
+      matches = matches.map((match) => path.join(match, segment));
+      continue;
+    }
+
+    const segmentRe = new RegExp(
+      `^${segment.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*+/g, ".*")}$`,
+    );
+    matches = matches.flatMap((match) => {
+      try {
+        return fs
+          .readdirSync(match)
+          .filter((entry) => segmentRe.test(entry))
+          .sort()
+          .map((entry) => path.join(match, entry));
+      } catch {
+        return [];
+      }
+    });
+  }
+  return matches.filter((match) => fs.existsSync(match));
+}
+
+class ViteConfigReader {
+  private _ts: typeof TypeScript;
+
+  constructor(ts: typeof TypeScript) {
+    this._ts = ts;
+  }
+
+  evaluate(configFile: string): unknown {
+    const content = fs.readFileSync(configFile, "utf-8");
+    if (configFile.endsWith(".json")) return JSON.parse(content);
+
+    const config = new ConfigModule(this._ts, configFile, content, 0).defaultExport();
+    // defineConfig(() => ...) exported without the helper
+    return config instanceof FunctionValue ? undefined : config;
+  }
+
+  read(configFile: string, includeProjects: boolean): ViteCoverageConfig[] {
+    const config = this.evaluate(configFile);
+    if (!isJsonObject(config)) return [];
+
+    const configDir = path.dirname(configFile);
+    const root = typeof config.root === "string" ? path.resolve(configDir, config.root) : configDir;
+    const test: JsonObject = isJsonObject(config.test) ? config.test : {};
+    const coverage: JsonObject = isJsonObject(test.coverage) ? test.coverage : {};
+
+    const configs: ViteCoverageConfig[] = [
+      {
+        configFile,
+        root,
+        reporters: parseReporters(coverage.reporter),
+        reportsDirectory:
+          typeof coverage.reportsDirectory === "string" ? coverage.reportsDirectory : null,
+      },
+    ];
+    if (!includeProjects) return configs;
+
+    let projects = test.projects ?? test.workspace;
+    if (projects === undefined) {
+      const workspaceFile = findConfigFile(configDir, WORKSPACE_NAMES);
+      if (workspaceFile) projects = this.evaluate(workspaceFile);
+    }
+    if (Array.isArray(projects)) {
+      for (const project of projects) {
+        configs.push(...this._readProject(project, root, configFile));
+      }
+    }
+    return configs;
+  }
+
+  private _readProject(project: unknown, root: string, configFile: string): ViteCoverageConfig[] {
+    if (typeof project === "string") {
+      if (project.startsWith("!")) return [];
+
+      return expandProjectPattern(project, root).flatMap((match) => {
+        const isConfigFile = [...SCRIPT_EXTENSIONS, ".json"].includes(path.extname(match));
+        const projectConfig = isConfigFile ? match : findConfigFile(match, CONFIG_NAMES);
+        if (projectConfig) return this.read(projectConfig, false);
+        // A project directory without a config still writes to its own coverage/
+        return [{ configFile, root: match, reporters: null, reportsDirectory: null }];
+      });
+    }
+
+    if (!isJsonObject(project)) return [];
+    const test: JsonObject = isJsonObject(project.test) ? project.test : {};
+    const projectRoot = test.root ?? project.root;
+    const coverage = isJsonObject(test.coverage) ? test.coverage : null;
+    if (!coverage && typeof projectRoot !== "string") return [];
+
+    return [
+      {
+        configFile,
+        root: typeof projectRoot === "string" ? path.resolve(root, projectRoot) : root,
+        reporters: parseReporters(coverage?.reporter),
+        reportsDirectory:
+          typeof coverage?.reportsDirectory === "string" ? coverage.reportsDirectory : null,
+      },
+    ];
+  }
+}
+
+/**
+ * Coverage settings of a Vite/Vitest config file and the projects of its
+ * workspace, read from the syntax tree without executing the config. Returns
+ * null when the typescript package is not available or the file cannot be
+ * parsed, so callers can fall back to scanning the text.
+ */
+export function readViteCoverageConfigs(configFile: string): ViteCoverageConfig[] | null {
+  const ts = loadTypeScript();
+  if (!ts) return null;
+
+  try {
+    return new ViteConfigReader(ts).read(configFile, true);
+  } catch (e: any) {
+    console.warn(`Could not read ${configFile}: ${e.message}`);
+    return null;
+  }
+}
@@ -0,0 +1,203 @@
+import fs from "fs";
+
+export const CHUNK_SIZE = 1024 * 1024;
+
+// Longest markup prefix that has to be complete before it can be recognised
+const MAX_PREFIX_LENGTH = "<![CDATA[".length;
+
+const ENTITIES: { [key: string]: string } = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+const ATTRIBUTE_RE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+export class XmlStreamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "XmlStreamError";
+  }
+}
+
+export interface XmlStreamHandler {
+  openTag?(name: string, attributes: { [key: string]: string }): void;
+  closeTag?(name: string): void;
+  text?(text: string): void;
+}
+
+function decodeEntities(text: string): string {
+  if (!text.includes("&")) return text;
+
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (entity, body: string) => {
+    if (body.startsWith("#x")) return String.fromCodePoint(parseInt(body.slice(2), 16));
+    if (body.startsWith("#")) return String.fromCodePoint(parseInt(body.slice(1), 10));
+    return ENTITIES[body] ?? entity;
+  });
+}
+
+/**
+ * Minimal SAX-style XML tokenizer. Content is fed in chunks and reported to
+ * the handler as tags and text, so a document never has to be held as a tree.
+ * DTDs are skipped and namespaces are not resolved, which is all coverage
+ * reports need.
+ */
+export class XmlStreamParser {
+  private _handler: XmlStreamHandler;
+  private _buffer = "";
+
+  constructor(handler: XmlStreamHandler) {
+    this._handler = handler;
+  }
+
+  write(chunk: string) {
+    this._buffer += chunk;
+    this._drain(false);
+  }
+
+  end() {
+    this._drain(true);
+    if (this._buffer.trim()) {
+      throw new XmlStreamError(
+        `Unexpected end of XML document near '${this._buffer.slice(0, 40)}'`,
+      );
+    }
+    this._buffer = "";
+  }
+
+  private _drain(final: boolean) {
+    const buffer = this._buffer;
+    let pos = 0;
+
+    while (pos < buffer.length) {
+      const start = buffer.indexOf("<", pos);
+      if (start === -1) {
+        // Text may continue in the next chunk
+        if (final) {
+          this._text(buffer.slice(pos));
+          pos = buffer.length;
+        }
+        break;
+      }
+      if (start > pos) {
+        this._text(buffer.slice(pos, start));
+        pos = start;
+      }
+      if (!final && buffer.length - start < MAX_PREFIX_LENGTH) break;
+
+      let end: number;
+      if (buffer.startsWith("<!--", start)) {
+        end = buffer.indexOf("-->", start + 4);
+        if (end === -1) break;
+        pos = end + 3;
+      } else if (buffer.startsWith("<![CDATA[", start)) {
+        end = buffer.indexOf("]]>", start + 9);
+        if (end === -1) break;
+        this._handler.text?.(buffer.slice(start + 9, end));
+        pos = end + 3;
+      } else if (buffer.startsWith("<?", start)) {
+        end = buffer.indexOf("?>", start + 2);
+        if (end === -1) break;
+        pos = end + 2;
+      } else if (buffer.startsWith("<!", start)) {
+        end = XmlStreamParser._declarationEnd(buffer, start);
+        if (end === -1) break;
+        pos = end + 1;
+      } else {
+        end = XmlStreamParser._tagEnd(buffer, start);
+        if (end === -1) break;
+        this._tag(buffer.slice(start + 1, end));
+        pos = end + 1;
+      }
+    }
+
+    this._buffer = buffer.slice(pos);
+  }
+
+  private _text(text: string) {
+    if (this._handler.text && text) {
+      this._handler.text(decodeEntities(text));
+    }
+  }
+
+  private _tag(content: string) {
+    if (content.startsWith("/")) {
+      this._handler.closeTag?.(content.slice(1).trim());
+      return;
+    }
+
+    const selfClosing = content.endsWith("/");
+    const body = selfClosing ? content.slice(0, -1) : content;
+    const nameEnd = body.search(/\s/);
+    const name = nameEnd === -1 ? body : body.slice(0, nameEnd);
+
+    const attributes: { [key: string]: string } = {};
+    if (nameEnd !== -1) {
+      for (const match of body.slice(nameEnd).matchAll(ATTRIBUTE_RE)) {
+        attributes[match[1]!] = decodeEntities(match[2] ?? match[3] ?? "");
+      }
+    }
+
+    this._handler.openTag?.(name, attributes);
+    if (selfClosing) {
+      this._handler.closeTag?.(name);
+    }
+  }
+
+  // Attribute values may contain '>'
+  private static _tagEnd(buffer: string, start: number): number {
+    let quote: string | null = null;
+    for (let i = start + 1; i < buffer.length; i++) {
+      const char = buffer[i];
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === ">") {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  // <!DOCTYPE ...> may carry an internal subset in brackets
+  private static _declarationEnd(buffer: string, start: number): number {
+    let depth = 0;
+    for (let i = start + 2; i < buffer.length; i++) {
+      const char = buffer[i];
+      if (char === "[") depth++;
+      else if (char === "]") depth--;
+      else if (char === ">" && depth === 0) return i;
+    }
+    return -1;
+  }
+}
+
+export function scanXmlString(content: string, handler: XmlStreamHandler) {
+  const parser = new XmlStreamParser(handler);
+  parser.write(content);
+  parser.end();
+}
+
+/**
+ * Streams an XML file through the handler in fixed-size chunks, so memory use
+ * does not grow with the size of the file.
+ */
+export function scanXmlFile(filePath: string, handler: XmlStreamHandler) {
+  const parser = new XmlStreamParser(handler);
+  const decoder = new TextDecoder("utf-8");
+  const chunk = Buffer.alloc(CHUNK_SIZE);
+  const fd = fs.openSync(filePath, "r");
+  try {
+    let bytesRead: number;
+    while ((bytesRead = fs.readSync(fd, chunk, 0, CHUNK_SIZE, null)) > 0) {
+      parser.write(decoder.decode(chunk.subarray(0, bytesRead), { stream: true }));
+    }
+    parser.write(decoder.decode());
+    parser.end();
+  } finally {
+    fs.closeSync(fd);
+  }
+}
@@ -1,18 +1,23 @@
 import { describe, expect, test, vi, beforeEach, jest } from "bun:test";
 import * as path from "path";
-import { findCoverageReports } from "../src/auto_config";
+import { discoverCoverageReports, findCoverageReports } from "../src/auto_config";
+// Loaded before fs is mocked, config files are parsed with it
+import "typescript";
 
 // Mock fs
 const mockExistsSync = vi.fn();
 const mockReadFileSync = vi.fn();
+const mockReaddirSync = vi.fn();
 
 (jest as any).mock("fs", () => ({
   default: {
     existsSync: mockExistsSync,
     readFileSync: mockReadFileSync,
+    readdirSync: mockReaddirSync,
   },
   existsSync: mockExistsSync,
   readFileSync: mockReadFileSync,
+  readdirSync: mockReaddirSync,
 }));
 
 describe("auto_config", () => {
@@ -21,6 +26,7 @@ describe("auto_config", () => {
   beforeEach(() => {
     mockExistsSync.mockClear();
     mockReadFileSync.mockClear();
+    mockReaddirSync.mockReset();
   });
 
   test("should detect lcov reporter in vitest.config.ts", () => {
@@ -241,4 +247,272 @@ describe("auto_config", () => {
     const reports = findCoverageReports();
     expect(reports).toEqual([lcovPath]);
   });
+
+  test("should detect istanbul json reporter when no lcov or xml report exists", () => {
+    const configPath = path.join(cwd, "vitest.config.ts");
+    const jsonPath = path.join(cwd, "coverage", "coverage-final.json");
+
+    mockExistsSync.mockImplementation((p: string) => {
+      if (p === configPath) return true;
+      if (p === jsonPath) return true;
+      return false;
+    });
+
+    mockReadFileSync.mockImplementation((p: string) => {
+      if (p === configPath) {
+        return "reporter: ['json', 'text']";
+      }
+      return "";
+    });
+
+    const reports = findCoverageReports();
+    expect(reports).toEqual([jsonPath]);
+  });
+
+  test("should prefer lcov over istanbul json reporter", () => {
+    const configPath = path.join(cwd, "vitest.config.ts");
+    const lcovPath = path.join(cwd, "coverage", "lcov.info");
+    const jsonPath = path.join(cwd, "coverage", "coverage-final.json");
+
+    mockExistsSync.mockImplementation((p: string) => {
+      if (p === configPath) return true;
+      if (p === lcovPath) return true;
+      if (p === jsonPath) return true;
+      return false;
+    });
+
+    mockReadFileSync.mockImplementation((p: string) => {
+      if (p === configPath) {
+        return "reporter: ['json', 'lcov']";
+      }
+      return "";
+    });
+
+    const reports = findCoverageReports();
+    expect(reports).toEqual([lcovPath]);
+  });
+
+  function mockFiles(files: { [key: string]: string }) {
+    mockExistsSync.mockImplementation((p: string) => p in files);
+    mockReadFileSync.mockImplementation((p: string) => files[p] ?? "");
+  }
+
+  test("should detect vitest configs with module extensions", () => {
+    const configPath = path.join(cwd, "vitest.config.mts");
+    const lcovPath = path.join(cwd, "coverage", "lcov.info");
+    mockFiles({
+      [configPath]: "export default { test: { coverage: { reporter: ['lcov'] } } };",
+      [lcovPath]: "",
+    });
+
+    expect(discoverCoverageReports()).toEqual([{ path: lcovPath, source: "vitest.config.mts" }]);
+  });
+
+  test("should detect jest.config.js coverage settings", () => {
+    const configPath = path.join(cwd, "jest.config.js");
+    const cloverPath = path.join(cwd, "reports", "clover.xml");
+    mockFiles({
+      [configPath]:
+        "module.exports = { coverageDirectory: 'reports', coverageReporters: ['clover'] };",
+      [cloverPath]: "",
+    });
+
+    expect(discoverCoverageReports()).toEqual([{ path: cloverPath, source: "jest.config.js" }]);
+  });
+
+  test("should strip <rootDir> from a jest.config.js coverage directory", () => {
+    const configPath = path.join(cwd, "jest.config.js");
+    const cloverPath = path.join(cwd, "reports", "clover.xml");
+    mockFiles({
+      [configPath]:
+        "module.exports = { coverageDirectory: '<rootDir>/reports', coverageReporters: ['clover'] };",
+      [cloverPath]: "",
+    });
+
+    expect(discoverCoverageReports()).toEqual([{ path: cloverPath, source: "jest.config.js" }]);
+  });
+
+  test("should read jest reporters given as tuples", () => {
+    const configPath = path.join(cwd, "jest.config.js");
+    const lcovPath = path.join(cwd, "coverage", "lcov.info");
+    const cloverPath = path.join(cwd, "coverage", "clover.xml");
+    mockFiles({
+      [configPath]: `module.exports = {
+  coverageReporters: [["lcov", { projectRoot: "../.." }], "text", ["clover", {}]],
+};`,
+      [lcovPath]: "",
+      [cloverPath]: "",
+    });
+
+    expect(discoverCoverageReports()).toEqual([
+      { path: lcovPath, source: "jest.config.js" },
+      { path: cloverPath, source: "jest.config.js" },
+    ]);
+  });
+
+  test("should detect the jest key in package.json with default reporters", () => {
+    const packagePath = path.join(cwd, "package.json");
+    const lcovPath = path.join(cwd, "coverage", "lcov.info");
+    const jsonPath = path.join(cwd, "coverage", "coverage-final.json");
+    mockFiles({
+      [packagePath]: JSON.stringify({ jest: { collectCoverage: true } }),
+      [lcovPath]: "",
+      [jsonPath]: "",
+    });
+
+    expect(discoverCoverageReports()).toEqual([{ path: lcovPath, source: 'package.json "jest"' }]);
+  });
+
+  test("should detect nyc and c8 rc files", () => {
+    const nycrcPath = path.join(cwd, ".nycrc.yml");
+    const coberturaPath = path.join(cwd, "out", "cobertura-coverage.xml");
+    mockFiles({
+      [nycrcPath]: "report-dir: out\nreporter:\n  - text\n  - cobertura\n",
+      [coberturaPath]: "",
+    });
+    expect(discoverCoverageReports()).toEqual([{ path: coberturaPath, source: ".nycrc.yml" }]);
+
+    const c8rcPath = path.join(cwd, ".c8rc.json");
+    const lcovPath = path.join(cwd, "coverage", "lcov.info");
+    mockFiles({ [c8rcPath]: '{ "reporter": ["lcov"] }', [lcovPath]: "" });
+    expect(discoverCoverageReports()).toEqual([{ path: lcovPath, source: ".c8rc.json" }]);
+  });
+
+  test("should detect bunfig.toml coverage settings", () => {
+    const bunfigPath = path.join(cwd, "bunfig.toml");
+    const lcovPath = path.join(cwd, "cov", "lcov.info");
+    mockFiles({
+      [bunfigPath]: '[test]\ncoverageReporter = ["text", "lcov"]\ncoverageDir = "cov"\n',
+      [lcovPath]: "",
+    });
+
+    expect(discoverCoverageReports()).toEqual([{ path: lcovPath, source: "bunfig.toml" }]);
+  });
+
+  test("should detect karma coverage reporters", () => {
+    const configPath = path.join(cwd, "karma.conf.js");
+    const lcovPath = path.join(cwd, "coverage", "app", "lcov.info");
+    mockFiles({
+      [configPath]: `
+        coverageReporter: {
+          dir: 'coverage',
+          subdir: 'app',
+          reporters: [{ type: 'html' }, { type: 'lcov' }]
+        }
+      `,
+      [lcovPath]: "",
+    });
+
+    expect(discoverCoverageReports()).toEqual([{ path: lcovPath, source: "karma.conf.js" }]);
+  });
+
+  test("should fall back to conventional report locations", () => {
+    const lcovPath = path.join(cwd, "coverage", "lcov.info");
+    const xmlPath = path.join(cwd, "coverage.xml");
+    mockFiles({ [lcovPath]: "", [xmlPath]: "" });
+
+    expect(discoverCoverageReports()).toEqual([
+      { path: lcovPath, source: "conventional location" },
+    ]);
+  });
+
+  test("should prefer test runner config over the fallback scan", () => {
+    const configPath = path.join(cwd, "vitest.config.ts");
+    const cloverPath = path.join(cwd, "coverage", "clover.xml");
+    const lcovPath = path.join(cwd, "coverage", "lcov.info");
+    mockFiles({ [configPath]: "export default {}", [cloverPath]: "", [lcovPath]: "" });
+
+    // Vitest writes clover and json reports by default
+    expect(findCoverageReports()).toEqual([cloverPath]);
+  });
+
+  test("should read tuple reporters with custom file names", () => {
+    const configPath = path.join(cwd, "vitest.config.ts");
+    const reportPath = path.join(cwd, "coverage", "unit.info");
+    mockFiles({
+      [configPath]: `
+        import { defineConfig } from "vitest/config";
+        export default defineConfig({
+          test: { coverage: { reporter: [["lcov", { file: "unit.info" }], "text"] } },
+        });
+      `,
+      [reportPath]: "",
+    });
+
+    expect(discoverCoverageReports()).toEqual([{ path: reportPath, source: "vitest.config.ts" }]);
+  });
+
+  test("should evaluate defineConfig functions, variables and spreads", () => {
+    const configPath = path.join(cwd, "vitest.config.ts");
+    const reportPath = path.join(cwd, "reports", "unit", "lcov.info");
+    mockFiles({
+      [configPath]: `
+        import { defineConfig } from "vitest/config";
+        import { resolve } from "node:path";
+
+        const reportsRoot = "reports";
+        const baseCoverage = { provider: "v8", reporter: ["text"] } as const;
+
+        export default defineConfig(({ mode }) => {
+          const reportsDirectory = resolve(__dirname, \`\${reportsRoot}/unit\`);
+          return {
+            test: {
+              coverage: { ...baseCoverage, reporter: ["lcov"], reportsDirectory },
+            },
+          };
+        });
+      `,
+      [reportPath]: "",
+    });
+
+    expect(findCoverageReports()).toEqual([reportPath]);
+  });
+
+  test("should follow mergeConfig with an imported vite config", () => {
+    const configPath = path.join(cwd, "vitest.config.ts");
+    const viteConfigPath = path.join(cwd, "vite.config.ts");
+    const reportPath = path.join(cwd, "out", "cobertura-coverage.xml");
+    mockFiles({
+      [configPath]: `
+        import { defineConfig, mergeConfig } from "vitest/config";
+        import viteConfig from "./vite.config";
+        export default mergeConfig(viteConfig, defineConfig({
+          test: { coverage: { reporter: ["cobertura"] } },
+        }));
+      `,
+      [viteConfigPath]: "export default { test: { coverage: { reportsDirectory: './out' } } };",
+      [reportPath]: "",
+    });
+
+    expect(findCoverageReports()).toEqual([reportPath]);
+  });
+
+  test("should find per-project coverage directories", () => {
+    const configPath = path.join(cwd, "vitest.config.ts");
+    const packagesDir = path.join(cwd, "packages");
+    const webConfigPath = path.join(packagesDir, "web", "vitest.config.ts");
+    const webReport = path.join(packagesDir, "web", "coverage", "lcov.info");
+    const apiReport = path.join(packagesDir, "api", "test-results", "lcov.info");
+    mockFiles({
+      [configPath]: `
+        export default {
+          test: {
+            coverage: { reporter: ["lcov"] },
+            projects: ["packages/*", { test: { root: "packages/api", coverage: { reportsDirectory: "test-results" } } }],
+          },
+        };
+      `,
+      [packagesDir]: "",
+      [path.join(packagesDir, "web")]: "",
+      [webConfigPath]: "export default { test: { name: 'web' } };",
+      [webReport]: "",
+      [apiReport]: "",
+    });
+    mockReaddirSync.mockImplementation((p: string) => (p === packagesDir ? ["web"] : []));
+
+    expect(discoverCoverageReports()).toEqual([
+      { path: webReport, source: "packages/web/vitest.config.ts" },
+      { path: apiReport, source: "vitest.config.ts" },
+    ]);
+  });
 });
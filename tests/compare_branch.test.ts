@@ -0,0 +1,172 @@
+import { afterEach, describe, expect, jest, test } from "bun:test";
+import {
+  checkQualityRange,
+  CompareBranchError,
+  compareBranchFromConfig,
+  diffScopeFromConfig,
+  resolveCompareBranch,
+  type GitCommand,
+} from "../src/compare_branch";
+
+/**
+ * A git with the given refs, origin/HEAD and upstream of the current branch.
+ */
+function fakeGit(
+  refs: string[],
+  {
+    originHead = null,
+    upstream = null,
+    current = "feature",
+  }: { originHead?: string | null; upstream?: string | null; current?: string } = {},
+): GitCommand {
+  return (args) => {
+    if (args[0] === "symbolic-ref") return originHead;
+    if (args.includes("@{upstream}")) return upstream;
+    if (args.includes("HEAD")) return current;
+    const ref = args[args.length - 1]!.replace("^{commit}", "");
+    return refs.includes(ref) ? "0123abcd" : null;
+  };
+}
+
+describe("resolveCompareBranch", () => {
+  test("should prefer the pull request target branch from CI", () => {
+    const git = fakeGit(["origin/release", "origin/main"], { originHead: "origin/main" });
+    expect(resolveCompareBranch(undefined, { GITHUB_BASE_REF: "release" }, git)).toEqual({
+      branch: "origin/release",
+      source: "GITHUB_BASE_REF",
+    });
+  });
+
+  test("should fall back to the local branch named by CI", () => {
+    const git = fakeGit(["develop"]);
+    const env = { SYSTEM_PULLREQUEST_TARGETBRANCH: "refs/heads/develop" };
+    expect(resolveCompareBranch(undefined, env, git).branch).toBe("develop");
+  });
+
+  test("should use origin/HEAD outside CI", () => {
+    const git = fakeGit(["origin/master"], { originHead: "origin/master" });
+    expect(resolveCompareBranch(undefined, {}, git)).toEqual({
+      branch: "origin/master",
+      source: "origin/HEAD",
+    });
+  });
+
+  test("should use an upstream tracking another branch", () => {
+    const git = fakeGit([], { upstream: "upstream/develop" });
+    expect(resolveCompareBranch(undefined, {}, git)).toEqual({
+      branch: "upstream/develop",
+      source: "upstream of feature",
+    });
+  });
+
+  test("should skip the remote copy of the current branch", () => {
+    const git = fakeGit(["origin/develop"], { upstream: "origin/feature" });
+    expect(resolveCompareBranch(["origin/trunk", "origin/develop"], {}, git)).toEqual({
+      branch: "origin/develop",
+      source: "fallback list",
+    });
+  });
+
+  test("should fail when no branch is found", () => {
+    expect(() => resolveCompareBranch(["origin/trunk"], {}, fakeGit([]))).toThrow(
+      CompareBranchError,
+    );
+  });
+});
+
+describe("compareBranchFromConfig", () => {
+  const git = fakeGit(["origin/main", "origin/release"]);
+  const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+
+  afterEach(() => {
+    consoleError.mockClear();
+  });
+
+  test("should keep a named branch", () => {
+    expect(compareBranchFromConfig({ compareBranch: "origin/dev" }, {}, git)).toBe("origin/dev");
+    expect(compareBranchFromConfig({ compareBranch: "origin/dev", base: "v1.2.0" }, {}, git)).toBe(
+      "v1.2.0",
+    );
+  });
+
+  test("should detect the branch and name it on stderr", () => {
+    const options = { compareBranch: "auto", compareBranchFallback: "origin/release" };
+    expect(compareBranchFromConfig(options, {}, git)).toBe("origin/release");
+    expect(consoleError).toHaveBeenCalledWith(
+      "Using compare branch origin/release (from fallback list)",
+    );
+  });
+
+  test("should detect the base of an explicit range", () => {
+    const options = { compareBranch: "origin/dev", base: "auto", quiet: true };
+    expect(compareBranchFromConfig(options, {}, git)).toBe("origin/main");
+    expect(consoleError).not.toHaveBeenCalled();
+  });
+
+  test("should not detect anything for a diff file", () => {
+    const options = { compareBranch: "auto", diffFile: "changes.diff" };
+    expect(compareBranchFromConfig(options, {}, git)).toBe("auto");
+  });
+});
+
+describe("diffScopeFromConfig", () => {
+  test("should include the working tree without a range", () => {
+    expect(diffScopeFromConfig({ includeUntracked: true })).toEqual({
+      head: "HEAD",
+      ignoreStaged: false,
+      ignoreUnstaged: false,
+      includeUntracked: true,
+      sourceRevision: null,
+    });
+  });
+
+  test("should leave the working tree out of an explicit range", () => {
+    expect(diffScopeFromConfig({ base: "v1.2.0", head: "v1.3.0", includeUntracked: true })).toEqual(
+      {
+        head: "v1.3.0",
+        ignoreStaged: true,
+        ignoreUnstaged: true,
+        includeUntracked: false,
+        sourceRevision: "v1.3.0",
+      },
+    );
+    expect(diffScopeFromConfig({ base: "v1.2.0" }).sourceRevision).toBe("HEAD");
+  });
+});
+
+describe("checkQualityRange", () => {
+  const scope = diffScopeFromConfig({ base: "v1.2.0", head: "v1.3.0" });
+
+  /**
+   * A git with HEAD at `checkedOut` and the given `git status` output.
+   */
+  function workingTree(checkedOut: string, changes: string): GitCommand {
+    const commits: { [key: string]: string } = {
+      "v1.3.0^{commit}": "1111",
+      "HEAD^{commit}": checkedOut,
+    };
+    return (args) => (args[0] === "status" ? changes : (commits[args[args.length - 1]!] ?? null));
+  }
+
+  test("should accept a clean checkout of the end of the range", () => {
+    expect(() => checkQualityRange(scope, false, workingTree("1111", ""))).not.toThrow();
+  });
+
+  test("should reject linting a working tree which differs from --head", () => {
+    expect(() => checkQualityRange(scope, false, workingTree("2222", ""))).toThrow(
+      CompareBranchError,
+    );
+    expect(() => checkQualityRange(scope, false, workingTree("1111", " M src/a.ts"))).toThrow(
+      "diff-quality lints the working tree, which differs from v1.3.0",
+    );
+  });
+
+  test("should accept reports made at the end of the range", () => {
+    expect(() => checkQualityRange(scope, true, workingTree("2222", " M src/a.ts"))).not.toThrow();
+  });
+
+  test("should not check the working tree without a range", () => {
+    const git = workingTree("2222", " M src/a.ts");
+    expect(() => checkQualityRange(diffScopeFromConfig({}), false, git)).not.toThrow();
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, test } from "bun:test";
+import {
+  CoverageFormatError,
+  coverageParseError,
+  detectCoverageFormat,
+  isXmlFormat,
+} from "../src/coverage_formats";
+
+describe("detectCoverageFormat", () => {
+  test("detects XML dialects from the root element", () => {
+    expect(detectCoverageFormat('<?xml version="1.0" ?>\n<coverage line-rate="0.5">')).toBe(
+      "cobertura",
+    );
+    expect(detectCoverageFormat('<coverage generated="1" clover="3.2.0"><project>')).toBe("clover");
+    // JaCoCo reports start with a DOCTYPE, the prolog is optional
+    expect(
+      detectCoverageFormat(
+        '<!DOCTYPE report PUBLIC "-//JACOCO//DTD Report 1.1//EN" "report.dtd"><report name="x">',
+      ),
+    ).toBe("jacoco");
+  });
+
+  test("detects text and JSON formats", () => {
+    expect(detectCoverageFormat("TN:\nSF:src/a.ts\nDA:1,1\nend_of_record\n")).toBe("lcov");
+    expect(detectCoverageFormat("")).toBe("lcov");
+    expect(detectCoverageFormat("mode: set\nexample.com/m/a.go:1.1,2.2 1 1\n")).toBe("go");
+    expect(detectCoverageFormat('{"result": []}')).toBe("v8");
+    expect(detectCoverageFormat('{"type": "llvm.coverage.json.export", "data": []}')).toBe(
+      "llvm-cov",
+    );
+    expect(detectCoverageFormat('{"gcc_version": "13.2.0", "files": []}')).toBe("gcov");
+    expect(detectCoverageFormat('{"meta": {}, "files": {}}')).toBe("coverage.py");
+    expect(detectCoverageFormat('{"src/a.ts": {"statementMap": {}}}')).toBe("istanbul");
+  });
+
+  test("returns null for unrelated files", () => {
+    expect(detectCoverageFormat('<?xml version="1.0" ?>\n<project><modelVersion>')).toBeNull();
+    expect(detectCoverageFormat('{"name": "my-package"}')).toBeNull();
+    expect(detectCoverageFormat("just some text")).toBeNull();
+  });
+});
+
+describe("coverage format helpers", () => {
+  test("streams XML formats only", () => {
+    expect(isXmlFormat("jacoco")).toBe(true);
+    expect(isXmlFormat("lcov")).toBe(false);
+  });
+
+  test("names the file and format in parse errors", () => {
+    const error = coverageParseError("coverage.json", "istanbul", true, new Error("Bad JSON"));
+    expect(error).toBeInstanceOf(CoverageFormatError);
+    expect(error.message).toBe(
+      "Could not parse coverage.json (detected as istanbul coverage): Bad JSON",
+    );
+  });
+});
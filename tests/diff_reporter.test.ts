@@ -0,0 +1,160 @@
+import { describe, expect, test } from "bun:test";
+import { GitDiffReporter } from "../src/diff_reporter";
+import { GitDiffTool } from "../src/git_diff";
+
+class FakeGitDiffTool extends GitDiffTool {
+  constructor(
+    private committed: string,
+    private staged: string = "",
+  ) {
+    super("...", false);
+  }
+
+  ranges: string[] = [];
+
+  override diffCommitted(compareBranch: string = "origin/main", head: string = "HEAD"): string {
+    this.ranges.push(`${compareBranch}${this.rangeNotation}${head}`);
+    return this.committed;
+  }
+
+  override diffStaged(): string {
+    return this.staged;
+  }
+
+  override diffUnstaged(): string {
+    return "";
+  }
+
+  override untracked(): string[] {
+    return [];
+  }
+}
+
+const RENAMED_DIFF = `diff --git a/src/old name.ts b/src/new name.ts
+similarity index 90%
+rename from src/old name.ts
+rename to src/new name.ts
+index 1234567..89abcde 100644
+--- a/src/old name.ts
++++ b/src/new name.ts
+@@ -3 +3 @@ export function run() {
+-  return 1;
++  return 2;
+`;
+
+describe("GitDiffReporter", () => {
+  test("should only count the modified lines of a renamed file", () => {
+    const reporter = new GitDiffReporter("origin/main", new FakeGitDiffTool(RENAMED_DIFF));
+
+    expect(reporter.srcPathsChanged()).toEqual(["src/new name.ts"]);
+    expect(reporter.linesChanged("src/new name.ts")).toEqual([3]);
+  });
+
+  test("should report a pure rename without changed lines", () => {
+    const diff = `diff --git a/a.ts b/b.ts
+similarity index 100%
+rename from a.ts
+rename to b.ts
+`;
+    const reporter = new GitDiffReporter("origin/main", new FakeGitDiffTool(diff));
+
+    expect(reporter.srcPathsChanged()).toEqual(["b.ts"]);
+    expect(reporter.linesChanged("b.ts")).toEqual([]);
+  });
+
+  test("should key copied files on the copy", () => {
+    const diff = `diff --git a/a.ts b/copy.ts
+similarity index 80%
+copy from a.ts
+copy to copy.ts
+--- a/a.ts
++++ b/copy.ts
+@@ -1,0 +2 @@
++added();
+`;
+    const reporter = new GitDiffReporter("origin/main", new FakeGitDiffTool(diff));
+
+    expect(reporter.srcPathsChanged()).toEqual(["copy.ts"]);
+    expect(reporter.linesChanged("copy.ts")).toEqual([2]);
+  });
+
+  test("should carry lines changed before a rename over to the new path", () => {
+    const committed = `diff --git a/a.ts b/a.ts
+--- a/a.ts
++++ b/a.ts
+@@ -5 +5 @@
+-old();
++changed();
+`;
+    const staged = `diff --git a/a.ts b/b.ts
+similarity index 95%
+rename from a.ts
+rename to b.ts
+--- a/a.ts
++++ b/b.ts
+@@ -8,0 +9 @@
++more();
+`;
+    const reporter = new GitDiffReporter("origin/main", new FakeGitDiffTool(committed, staged));
+
+    expect(reporter.srcPathsChanged()).toEqual(["b.ts"]);
+    expect(reporter.linesChanged("b.ts")).toEqual([5, 9]);
+  });
+
+  test("should leave out code moved between files with ignoreMoved", () => {
+    const diff = `diff --git a/a.ts b/a.ts
+--- a/a.ts
++++ b/a.ts
+@@ -4,3 +3,0 @@
+-export function total(items: number[]): number {
+-  return items.reduce((sum, item) => sum + item, 0);
+-}
+diff --git a/b.ts b/b.ts
+--- a/b.ts
++++ b/b.ts
+@@ -1,0 +2,4 @@
++export function total(items: number[]): number {
++  return items.reduce((sum, item) => sum + item, 0);
++}
++export const answer = 42;
+`;
+    const reporter = new GitDiffReporter(
+      "origin/main",
+      new FakeGitDiffTool(diff),
+      false,
+      false,
+      false,
+      null,
+      null,
+      null,
+      true,
+    );
+
+    expect(reporter.linesChanged("b.ts")).toEqual([5]);
+    expect(reporter.movedLines("b.ts")).toEqual([2, 3, 4]);
+
+    const withMoves = new GitDiffReporter("origin/main", new FakeGitDiffTool(diff));
+    expect(withMoves.linesChanged("b.ts")).toEqual([2, 3, 4, 5]);
+    expect(withMoves.movedLines("b.ts")).toEqual([]);
+  });
+
+  test("should diff and name an explicit commit range", () => {
+    const tool = new FakeGitDiffTool(RENAMED_DIFF);
+    const reporter = new GitDiffReporter(
+      "v1.2.0",
+      tool,
+      true,
+      true,
+      false,
+      null,
+      null,
+      null,
+      false,
+      "v1.3.0",
+    );
+
+    expect(reporter.name()).toBe("v1.2.0...v1.3.0");
+    expect(reporter.srcPathsChanged()).toEqual(["src/new name.ts"]);
+    expect(tool.ranges).toEqual(["v1.2.0...v1.3.0"]);
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, expect, test, vi, beforeEach, jest } from "bun:test";
 import { GitDiffTool, GitDiffFileTool, GitDiffError } from "../src/git_diff";
 import * as commandRunner from "../src/command_runner";
+import { gzipSync } from "zlib";
 
 // Mock command_runner
 const mockExecute = vi.fn();
@@ -38,6 +39,20 @@ describe("GitDiffTool", () => {
     expect(lastCall).toContain("--ignore-blank-lines");
   });
 
+  test("should detect renames but not copies with the given threshold", () => {
+    const tool = new GitDiffTool("...", false, 75);
+    mockExecute.mockReturnValue([""]);
+    tool.diffCommitted();
+    const lastCall = mockExecute.mock.calls[0]![0];
+    expect(lastCall).toContain("--find-renames=75%");
+    expect(lastCall.some((arg: string) => arg.startsWith("--find-copies"))).toBe(false);
+  });
+
+  test("should reject rename thresholds outside 0-100", () => {
+    expect(() => new GitDiffTool("...", false, 150)).toThrow(GitDiffError);
+    expect(() => new GitDiffTool("...", false, NaN)).toThrow(/Invalid rename threshold/);
+  });
+
   test("diffCommitted should execute git diff", () => {
     const tool = new GitDiffTool("...", false);
     mockExecute.mockReturnValue(["diff output"]);
@@ -59,6 +74,24 @@ describe("GitDiffTool", () => {
     );
   });
 
+  test("diffCommitted should diff an explicit commit range", () => {
+    const tool = new GitDiffTool("..", false);
+    mockExecute.mockReturnValue(["diff output"]);
+    tool.diffCommitted("v1.2.0", "v1.3.0");
+    expect(mockExecute).toHaveBeenCalledWith(expect.arrayContaining(["v1.2.0..v1.3.0"]));
+  });
+
+  test("diffCommitted should name both ends of an unknown range", () => {
+    const tool = new GitDiffTool("..", false);
+    const CommandError = (commandRunner as any).CommandError;
+    mockExecute.mockImplementation(() => {
+      throw new CommandError("unknown revision");
+    });
+    expect(() => tool.diffCommitted("abc123", "def456")).toThrow(
+      /Do both 'abc123' and 'def456' exist\?/,
+    );
+  });
+
   test("diffCommitted should rethrow other errors", () => {
     const tool = new GitDiffTool("...", false);
     mockExecute.mockImplementation(() => {
@@ -130,6 +163,26 @@ describe("GitDiffFileTool", () => {
     expect(() => tool.diffCommitted()).toThrow(/Could not read the diff file/);
   });
 
+  test("diffCommitted should decompress gzipped files", () => {
+    const tool = new GitDiffFileTool("diff.patch.gz");
+    mockReadFileSync.mockReturnValue(gzipSync("file content"));
+    expect(tool.diffCommitted()).toBe("file content");
+    expect(mockReadFileSync).toHaveBeenCalledWith("diff.patch.gz");
+  });
+
+  test("diffCommitted should read '-' from standard input", () => {
+    const tool = new GitDiffFileTool("-");
+    mockReadFileSync.mockReturnValue(Buffer.from("piped content"));
+    expect(tool.diffCommitted()).toBe("piped content");
+    expect(mockReadFileSync).toHaveBeenCalledWith(0);
+  });
+
+  test("diffCommitted should decompress gzipped standard input", () => {
+    const tool = new GitDiffFileTool("-");
+    mockReadFileSync.mockReturnValue(gzipSync("piped content"));
+    expect(tool.diffCommitted()).toBe("piped content");
+  });
+
   test("diffUnstaged should return empty string", () => {
     const tool = new GitDiffFileTool("diff.patch");
     expect(tool.diffUnstaged()).toBe("");
@@ -0,0 +1,103 @@
+import { describe, expect, test } from "bun:test";
+import { ExcludeLinesError, ignoredLines, parseExcludeLines } from "../src/ignore_pragmas";
+
+const defaults = parseExcludeLines(undefined);
+
+function ignored(lines: string[], patterns: RegExp[] = defaults, srcPath?: string): number[] {
+  return [...ignoredLines(lines.join("\n"), patterns, srcPath)].sort((a, b) => a - b);
+}
+
+describe("ignoredLines", () => {
+  test("istanbul ignore next skips the next statement", () => {
+    const lines = [
+      "/* istanbul ignore next */",
+      "function debug() {",
+      "  if (x) {",
+      "    log(x);",
+      "  }",
+      "}",
+      "run();",
+    ];
+    expect(ignored(lines)).toEqual([2, 3, 4, 5, 6]);
+  });
+
+  test("ignore next applies to code on the same line", () => {
+    expect(ignored(["const a = /* istanbul ignore next */ b || c;", "d();"])).toEqual([1]);
+    expect(ignored(["/* c8 ignore next */ if (x) {", "  y();", "} else {", "  z();", "}"])).toEqual(
+      [1, 2, 3, 4, 5],
+    );
+  });
+
+  test("ignore next follows brackets after # and -- in C-like code", () => {
+    const lines = [
+      "/* istanbul ignore next */",
+      "while (i--) {",
+      "  this.#count += 1;",
+      "}",
+      "run();",
+    ];
+    expect(ignored(lines, defaults, "src/app.ts")).toEqual([2, 3, 4]);
+    expect(
+      ignored(["// istanbul ignore next", "if (tag === '#') {", "  skip();", "}", "run();"]),
+    ).toEqual([2, 3, 4]);
+  });
+
+  test("comment markers follow the file extension", () => {
+    const python = ["# diff-cover: ignore", "result = (a // b  # ratio", "  + c)", "done()"];
+    expect(ignored(python, defaults, "app/views.py")).toEqual([2, 3]);
+    const sql = ["select 1; -- diff-cover: ignore", "select 2;"];
+    expect(ignored(sql, defaults, "db/report.sql")).toEqual([1]);
+  });
+
+  test("c8 ignore next N skips N lines", () => {
+    expect(ignored(["/* c8 ignore next 2 */", "a();", "b();", "c();"])).toEqual([2, 3]);
+  });
+
+  test("c8 ignore start and stop skip the range", () => {
+    const lines = ["a();", "/* c8 ignore start */", "b();", "c();", "/* c8 ignore stop */", "d();"];
+    expect(ignored(lines)).toEqual([2, 3, 4, 5]);
+    expect(ignored(["a();", "// v8 ignore start", "b();"])).toEqual([2, 3]);
+  });
+
+  test("pragma: no cover skips the line or the block it opens", () => {
+    const lines = [
+      "def main():",
+      "    run()",
+      "",
+      "if DEBUG:  # pragma: no cover",
+      "    dump()",
+      "",
+      "    trace()",
+      "done()",
+      "x = 1  # pragma: no cover",
+    ];
+    expect(ignored(lines)).toEqual([4, 5, 6, 7, 9]);
+  });
+
+  test("diff-cover: ignore skips its own line or the next statement", () => {
+    expect(ignored(["a();", "b(); // diff-cover: ignore", "c();"])).toEqual([2]);
+    expect(ignored(["# diff-cover: ignore", "", "b()", "c()"])).toEqual([3]);
+  });
+
+  test("matches exclude_lines patterns", () => {
+    const patterns = parseExcludeLines(["raise NotImplementedError", "if TYPE_CHECKING:"]);
+    const lines = [
+      "if TYPE_CHECKING:",
+      "    import os",
+      "def f():",
+      "    raise NotImplementedError",
+    ];
+    expect(ignored(lines, patterns)).toEqual([1, 2, 4]);
+  });
+});
+
+describe("parseExcludeLines", () => {
+  test("adds patterns to the default pragma", () => {
+    expect(parseExcludeLines("assert False").map((p) => p.source)).toHaveLength(2);
+    expect(parseExcludeLines(undefined)[0]!.test("x = 1  # pragma: no cover")).toBe(true);
+  });
+
+  test("rejects invalid patterns", () => {
+    expect(() => parseExcludeLines(["(unclosed"])).toThrow(ExcludeLinesError);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, test } from "bun:test";
+import { findMovedLines, type AddedLine } from "../src/moved_lines";
+
+function added(firstLine: number, texts: string[]): AddedLine[] {
+  return texts.map((text, index) => ({ lineNo: firstLine + index, text }));
+}
+
+function movedLineNumbers(addedRuns: AddedLine[][], deletedRuns: string[][]): number[] {
+  return [...findMovedLines(addedRuns, deletedRuns)]
+    .map((line) => line.lineNo)
+    .sort((a, b) => a - b);
+}
+
+describe("findMovedLines", () => {
+  const moved = ["function total(items) {", "  return items.reduce(sum, 0);", "}"];
+
+  test("should find a block deleted in one place and added in another", () => {
+    const run = added(10, ["// new code", ...moved]);
+    expect(movedLineNumbers([run], [moved])).toEqual([11, 12, 13]);
+  });
+
+  test("should not treat re-indented lines as moved", () => {
+    // Wrapping code in a new condition changes its behaviour
+    const wrapped = ["if (items.length > 0) {", ...moved.map((text) => `  ${text}`), "}"];
+    expect(movedLineNumbers([added(1, wrapped)], [moved])).toEqual([]);
+  });
+
+  test("should not treat short blocks as moved", () => {
+    expect(movedLineNumbers([added(1, ["}", "", "return;"])], [["}", "", "return;"]])).toEqual([]);
+  });
+
+  test("should require the lines to be in the same order", () => {
+    // Too short to be moved one by one
+    const deleted = ["if (ready) {", "  start(job);", "  done(job);", "}"];
+    expect(movedLineNumbers([added(1, deleted)], [deleted])).toEqual([1, 2, 3, 4]);
+
+    const shuffled = [deleted[0]!, deleted[2]!, deleted[1]!, deleted[3]!];
+    expect(movedLineNumbers([added(1, shuffled)], [deleted])).toEqual([]);
+  });
+
+  test("should split a block at a modified line", () => {
+    const deleted = [
+      "const first = computeSomething(a);",
+      "const second = computeSomethingElse(b);",
+      "const third = computeAnything(c);",
+    ];
+    const run = added(1, [deleted[0]!, "const second = changed(b);", deleted[2]!]);
+    expect(movedLineNumbers([run], [deleted])).toEqual([1, 3]);
+  });
+});
@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import path from "path";
+import {
+  diagnosePaths,
+  formatPathDiagnostics,
+  sourcePaths,
+  unmeasuredPaths,
+} from "../src/path_diagnostics";
+import { PathMapTool, parsePathMap } from "../src/path_map";
+import { BaseViolationReporter, Violation } from "../src/violations_reporter";
+
+class MockReporter extends BaseViolationReporter {
+  constructor(
+    private _measured: { [key: string]: number[] },
+    private _reported: string[] | null,
+  ) {
+    super("mock");
+  }
+
+  override violations(_srcPath: string): Violation[] {
+    return [];
+  }
+
+  override measuredLines(srcPath: string): number[] | null {
+    return this._measured[srcPath] || null;
+  }
+
+  override reportedPaths(): string[] | null {
+    return this._reported;
+  }
+}
+
+describe("diagnosePaths", () => {
+  afterEach(() => {
+    PathMapTool.setPathMap(null);
+  });
+
+  test("suggests a path map for reports written under another root", () => {
+    const reporter = new MockReporter({ "src/ok.ts": [1] }, [
+      "/app/src/ok.ts",
+      "/app/src/foo.ts",
+      "/app/lib/foo.ts",
+    ]);
+
+    const [diagnostic, ...rest] = diagnosePaths(["src/ok.ts", "src/foo.ts"], reporter);
+
+    expect(rest).toEqual([]);
+    expect(diagnostic!.srcPath).toBe("src/foo.ts");
+    expect(diagnostic!.candidates).toEqual(["/app/src/foo.ts", "/app/lib/foo.ts"]);
+    expect(diagnostic!.suggestion).toBe("--path-map /app=.");
+  });
+
+  test("suggests a path map for absolute report paths outside the repository", () => {
+    // An lcov SF:/app/src/a.ts, made relative to the working directory
+    const reportedPath = path.relative(process.cwd(), "/app/src/a.ts");
+    const reporter = new MockReporter({}, [reportedPath]);
+
+    const [diagnostic] = diagnosePaths(["src/a.ts"], reporter);
+
+    expect(diagnostic!.candidates).toEqual(["/app/src/a.ts"]);
+    expect(diagnostic!.suggestion).toBe("--path-map /app=.");
+    PathMapTool.setPathMap(parsePathMap(diagnostic!.suggestion!.replace("--path-map ", "")));
+    expect(PathMapTool.apply("/app/src/a.ts")).toBe("src/a.ts");
+  });
+
+  test("suggests source roots for package-relative report paths", () => {
+    const reporter = new MockReporter({}, ["com/acme/Cart.java"]);
+    const [diagnostic] = diagnosePaths(
+      ["services/shop/src/main/java/com/acme/Cart.java"],
+      reporter,
+    );
+
+    expect(diagnostic!.suggestion).toBe("--src-roots services/shop/src/main/java");
+  });
+
+  test("skips changed files which are not sources", () => {
+    const reporter = new MockReporter({}, ["/app/README.md", "/app/src/foo.ts"]);
+
+    expect(diagnosePaths(["README.md", "src/foo.ts"], reporter).map((d) => d.srcPath)).toEqual([
+      "src/foo.ts",
+    ]);
+    expect(diagnosePaths(["README.md", "src/foo.ts"], reporter, [".md"])).toHaveLength(1);
+  });
+
+  test("formats files without any candidate", () => {
+    const reporter = new MockReporter({}, null);
+    const output = formatPathDiagnostics(diagnosePaths(["src/new.ts"], reporter));
+
+    expect(output).toBe(
+      [
+        "Path diagnostics: 1 changed file(s) have no coverage data",
+        "  src/new.ts",
+        "    no report path ends with this file name",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("sourcePaths and unmeasuredPaths", () => {
+  test("keep the source files the report measured nothing in", () => {
+    const reporter = new MockReporter({ "src/moved.ts": [4], "src/types.ts": [] }, null);
+    const changed = sourcePaths(["README.md", "package.json", "src/moved.ts", "src/types.ts"]);
+
+    expect(changed).toEqual(["src/moved.ts", "src/types.ts"]);
+    expect(unmeasuredPaths(changed, reporter)).toEqual(["src/types.ts"]);
+  });
+});
@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { PathMapError, PathMapTool, parsePathMap } from "../src/path_map";
+
+describe("parsePathMap", () => {
+  test("parses FROM=TO strings and tables", () => {
+    expect(parsePathMap(["/app=.", "/home/runner/work/x/x=src"])).toEqual([
+      ["/app", "."],
+      ["/home/runner/work/x/x", "src"],
+    ]);
+    expect(parsePathMap("/app=")).toEqual([["/app", ""]]);
+    expect(parsePathMap({ "/app": "." })).toEqual([["/app", "."]]);
+    expect(parsePathMap(undefined)).toEqual([]);
+  });
+
+  test("rejects mappings without a FROM prefix", () => {
+    expect(() => parsePathMap(["/app"])).toThrow(PathMapError);
+    expect(() => parsePathMap(["=src"])).toThrow(PathMapError);
+  });
+});
+
+describe("PathMapTool", () => {
+  afterEach(() => {
+    PathMapTool.setPathMap(null);
+  });
+
+  test("leaves paths unchanged without a path map", () => {
+    expect(PathMapTool.apply("/app/src/foo.ts")).toBe("/app/src/foo.ts");
+  });
+
+  test("rewrites prefixes on path boundaries", () => {
+    PathMapTool.setPathMap([["/app/", "."]]);
+
+    expect(PathMapTool.apply("/app/src/foo.ts")).toBe("src/foo.ts");
+    expect(PathMapTool.apply("/application/foo.ts")).toBe("/application/foo.ts");
+  });
+
+  test("prefers the longest matching prefix", () => {
+    PathMapTool.setPathMap([
+      ["/app", "services/api"],
+      ["/app/vendor", "third_party"],
+    ]);
+
+    expect(PathMapTool.apply("/app/vendor/lib.ts")).toBe("third_party/lib.ts");
+    expect(PathMapTool.apply("/app/main.ts")).toBe("services/api/main.ts");
+  });
+});
@@ -1,6 +1,11 @@
 import { expect, test, describe } from "bun:test";
-import { StringReportGenerator } from "../src/report_generator";
-import { BaseViolationReporter, Violation } from "../src/violations_reporter";
+import { JsonReportGenerator, StringReportGenerator } from "../src/report_generator";
+import {
+  BaseViolationReporter,
+  BranchCoverage,
+  FunctionCoverage,
+  Violation,
+} from "../src/violations_reporter";
 import { BaseDiffReporter } from "../src/diff_reporter";
 
 class MockViolationReporter extends BaseViolationReporter {
@@ -21,6 +26,42 @@ class MockViolationReporter extends BaseViolationReporter {
   }
 }
 
+class MockBranchReporter extends BaseViolationReporter {
+  constructor() {
+    super("mock");
+  }
+  violations(_srcPath: string): Violation[] {
+    return [new Violation(20, null)];
+  }
+  override measuredLines(_srcPath: string): number[] | null {
+    return [10, 15, 20, 25];
+  }
+  override branches(_srcPath: string): BranchCoverage[] | null {
+    return [
+      new BranchCoverage(10, 1, 2),
+      new BranchCoverage(15, 2, 2),
+      new BranchCoverage(20, 0, 2),
+      new BranchCoverage(25, 0, 4),
+    ];
+  }
+}
+
+class MockIgnoredReporter extends MockViolationReporter {
+  override ignoredLines(_srcPath: string): number[] | null {
+    return [15, 30];
+  }
+}
+
+class MockFunctionReporter extends MockViolationReporter {
+  override functions(_srcPath: string): FunctionCoverage[] | null {
+    return [
+      new FunctionCoverage("outsideDiff", 5, 0),
+      new FunctionCoverage("called", 10, 4),
+      new FunctionCoverage("neverCalled", 20, 0),
+    ];
+  }
+}
+
 class MockDiffReporter extends BaseDiffReporter {
   constructor() {
     super("mock");
@@ -36,6 +77,12 @@ class MockDiffReporter extends BaseDiffReporter {
   }
 }
 
+class MockMovedDiffReporter extends MockDiffReporter {
+  override movedLines(_srcPath: string): number[] {
+    return [40, 41];
+  }
+}
+
 describe("ReportGenerator", () => {
   test("StringReportGenerator", () => {
     const violations = new MockViolationReporter();
@@ -59,4 +106,117 @@ describe("ReportGenerator", () => {
     expect(output).toContain("0%");
     expect(output).toContain("Missing lines 10,20");
   });
+
+  test("should report partial branch lines and branch coverage", () => {
+    const generator = new JsonReportGenerator(new MockBranchReporter(), new MockDiffReporter());
+
+    const report = generator.reportDict();
+    // Lines 15 and 25 are not in the diff, line 20 is already a violation
+    expect(report.src_stats["file1.ts"].partial_lines).toEqual([10]);
+    expect(report.total_num_branches).toBe(4);
+    expect(report.total_num_covered_branches).toBe(1);
+    expect(report.total_percent_branches_covered).toBe(25);
+    expect(report.src_stats["file1.ts"].percent_branches_covered).toBe(25);
+  });
+
+  test("should show branch coverage in the console report", () => {
+    const generator = new StringReportGenerator(new MockBranchReporter(), new MockDiffReporter());
+
+    let output = "";
+    const stream = {
+      write: (chunk: string) => (output += chunk),
+    } as any;
+    generator.generateReport(stream);
+
+    expect(output).toContain("file1.ts: Partial branches on lines 10");
+    expect(output).toContain("Branches: 1 of 4 covered (25%)");
+  });
+
+  test("should count ignored lines on changed lines", () => {
+    const generator = new JsonReportGenerator(new MockIgnoredReporter(), new MockDiffReporter());
+
+    const report = generator.reportDict();
+    // Line 15 is not in the diff
+    expect(report.total_num_ignored_lines).toBe(1);
+    expect(report.src_stats["file1.ts"].ignored_lines).toEqual([30]);
+  });
+
+  test("should show ignored lines in the console report", () => {
+    const generator = new StringReportGenerator(new MockIgnoredReporter(), new MockDiffReporter());
+
+    let output = "";
+    const stream = {
+      write: (chunk: string) => (output += chunk),
+    } as any;
+    generator.generateReport(stream);
+
+    expect(output).toContain("Ignored: 1 line");
+  });
+
+  test("should list uncalled functions starting on changed lines", () => {
+    const generator = new JsonReportGenerator(new MockFunctionReporter(), new MockDiffReporter());
+
+    const report = generator.reportDict();
+    expect(report.total_num_functions).toBe(2);
+    expect(report.total_num_uncalled_functions).toBe(1);
+    expect(report.src_stats["file1.ts"].uncalled_functions).toEqual([
+      { name: "neverCalled", line: 20 },
+    ]);
+  });
+
+  test("should show uncalled functions in the console report", () => {
+    const generator = new StringReportGenerator(new MockFunctionReporter(), new MockDiffReporter());
+
+    let output = "";
+    const stream = {
+      write: (chunk: string) => (output += chunk),
+    } as any;
+    generator.generateReport(stream);
+
+    expect(output).toContain("file1.ts: Uncalled functions neverCalled (line 20)\n");
+    expect(output).toContain("Functions: 1 of 2 called");
+  });
+
+  test("should count moved lines in the console report", () => {
+    const generator = new StringReportGenerator(
+      new MockViolationReporter(),
+      new MockMovedDiffReporter(),
+    );
+
+    let output = "";
+    const stream = {
+      write: (chunk: string) => (output += chunk),
+    } as any;
+    generator.generateReport(stream);
+
+    expect(generator.reportDict().total_num_moved_lines).toBe(2);
+    expect(output).toContain("Moved: 2 lines not counted");
+  });
+
+  test("should have no branch coverage without branch data", () => {
+    const generator = new JsonReportGenerator(new MockViolationReporter(), new MockDiffReporter());
+
+    expect(generator.totalPercentBranchesCovered()).toBeNull();
+    expect(generator.reportDict().total_num_branches).toBe(0);
+  });
+
+  test("should include a per-report breakdown in the JSON report", () => {
+    const generator = new JsonReportGenerator(
+      new MockViolationReporter(),
+      new MockDiffReporter(),
+      false,
+      { "unit.xml": new MockViolationReporter(), "e2e.info": new MockBranchReporter() },
+    );
+
+    const report = generator.reportDict();
+    expect(Object.keys(report.per_report)).toEqual(["unit.xml", "e2e.info"]);
+    expect(report.per_report["unit.xml"].total_num_violations).toBe(2);
+    expect(report.per_report["e2e.info"].total_num_violations).toBe(1);
+  });
+
+  test("should not include a per-report breakdown by default", () => {
+    const generator = new JsonReportGenerator(new MockViolationReporter(), new MockDiffReporter());
+
+    expect(generator.reportDict().per_report).toBeUndefined();
+  });
 });
@@ -0,0 +1,103 @@
+import { afterAll, describe, expect, jest, test } from "bun:test";
+import os from "os";
+import path from "path";
+import { decodeVlq, SourceMap, SourceMapError } from "../src/source_map";
+
+// Other test files mock fs, these tests read real files
+const realFs = require("fs");
+(jest as any).mock("fs", () => ({ ...realFs, default: realFs }));
+
+describe("decodeVlq", () => {
+  test("decodes positive, negative and multi-digit values", () => {
+    expect(decodeVlq("AAAA")).toEqual([0, 0, 0, 0]);
+    expect(decodeVlq("ACGA")).toEqual([0, 1, 3, 0]);
+    expect(decodeVlq("D")).toEqual([-1]);
+    expect(decodeVlq("gB")).toEqual([16]);
+  });
+
+  test("rejects invalid characters", () => {
+    expect(() => decodeVlq("A!")).toThrow(SourceMapError);
+  });
+});
+
+describe("SourceMap", () => {
+  test("maps generated lines to original lines", () => {
+    const sourceMap = new SourceMap(
+      { version: 3, sources: ["a.ts", "b.ts"], mappings: "AAAA,EAAC;;ACGA;ADFA" },
+      "/repo/src",
+    );
+
+    expect(sourceMap.originalPositions(1)).toEqual([{ source: "/repo/src/a.ts", line: 1 }]);
+    expect(sourceMap.originalPositions(2)).toEqual([]);
+    expect(sourceMap.originalPositions(3)).toEqual([{ source: "/repo/src/b.ts", line: 4 }]);
+    expect(sourceMap.originalPositions(4)).toEqual([{ source: "/repo/src/a.ts", line: 2 }]);
+  });
+
+  test("resolves sources against sourceRoot and bundler namespaces", () => {
+    const sourceMap = new SourceMap(
+      { version: 3, sourceRoot: "../lib", sources: ["x.ts"], mappings: "AAAA" },
+      "/repo/dist",
+    );
+    expect(sourceMap.originalPositions(1)[0]!.source).toBe("/repo/lib/x.ts");
+
+    const webpackMap = new SourceMap(
+      { version: 3, sources: ["webpack://app/./src/y.ts"], mappings: "AAAA" },
+      "/repo/dist",
+    );
+    expect(webpackMap.originalPositions(1)[0]!.source).toBe(`${process.cwd()}/src/y.ts`);
+  });
+
+  test("rejects indexed source maps", () => {
+    expect(() => new SourceMap({ version: 3, sections: [] }, "/repo")).toThrow(SourceMapError);
+  });
+
+  test("skips null sources", () => {
+    const sourceMap = new SourceMap(
+      { version: 3, sources: [null, "b.ts"], mappings: "AAAA;ACAA" },
+      "/repo/src",
+    );
+    expect(sourceMap.originalPositions(1)).toEqual([]);
+    expect(sourceMap.originalPositions(2)).toEqual([{ source: "/repo/src/b.ts", line: 1 }]);
+  });
+
+  test("rejects maps with fields of the wrong type, naming the map", () => {
+    const load = (rawMap: unknown) => () => new SourceMap(rawMap, "/repo", "source map a.js.map");
+    expect(load([])).toThrow("Invalid source map a.js.map: not a JSON object");
+    expect(load({ sources: "a.ts", mappings: "" })).toThrow(
+      'Invalid source map a.js.map: "sources" is not a list of strings',
+    );
+    expect(load({ sources: [], mappings: 1 })).toThrow(SourceMapError);
+    expect(load({ sourceRoot: 1, sources: [], mappings: "" })).toThrow(SourceMapError);
+  });
+});
+
+describe("SourceMap.forGeneratedFile", () => {
+  const dir = realFs.mkdtempSync(path.join(os.tmpdir(), "source-map-"));
+  afterAll(() => {
+    realFs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("names a map file which is not JSON", () => {
+    const generatedPath = path.join(dir, "a.js");
+    realFs.writeFileSync(generatedPath, "run();\n//# sourceMappingURL=a.js.map\n");
+    realFs.writeFileSync(`${generatedPath}.map`, "{ not json");
+
+    expect(() => SourceMap.forGeneratedFile(generatedPath)).toThrow(
+      `Invalid source map ${generatedPath}.map:`,
+    );
+  });
+
+  test("names an inline map which is not JSON", () => {
+    const generatedPath = path.join(dir, "b.js");
+    const data = Buffer.from("{ not json").toString("base64");
+    realFs.writeFileSync(
+      generatedPath,
+      `run();\n//# sourceMappingURL=data:application/json;base64,${data}\n`,
+    );
+
+    expect(() => SourceMap.forGeneratedFile(generatedPath)).toThrow(SourceMapError);
+    expect(() => SourceMap.forGeneratedFile(generatedPath)).toThrow(
+      `Invalid inline source map of ${generatedPath}:`,
+    );
+  });
+});
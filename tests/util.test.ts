@@ -1,5 +1,11 @@
 import { describe, it, expect } from "bun:test";
-import { toUnixPath, toUnixPaths, toUnescapedFilename } from "../src/util";
+import {
+  checkStdinUsage,
+  isCompressedPath,
+  toUnixPath,
+  toUnixPaths,
+  toUnescapedFilename,
+} from "../src/util";
 
 describe("util", () => {
   it("toUnixPath should convert backslashes to forward slashes", () => {
@@ -35,4 +41,15 @@ describe("util", () => {
     // Current implementation is simple char map
     expect(toUnescapedFilename('"\\a"')).toBe("a");
   });
+
+  it("isCompressedPath should recognise .gz files", () => {
+    expect(isCompressedPath("coverage/lcov.info.gz")).toBe(true);
+    expect(isCompressedPath("REPORT.XML.GZ")).toBe(true);
+    expect(isCompressedPath("coverage/lcov.info")).toBe(false);
+  });
+
+  it("checkStdinUsage should allow standard input once", () => {
+    expect(() => checkStdinUsage(["-", "coverage.xml", undefined])).not.toThrow();
+    expect(() => checkStdinUsage(["-", "-"])).toThrow(/can only be used for one/);
+  });
 });
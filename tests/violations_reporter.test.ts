@@ -1,4 +1,4 @@
-import { describe, expect, test, jest, beforeEach } from "bun:test";
+import { describe, expect, test, jest, beforeEach, afterEach } from "bun:test";
 import {
   QualityReporter,
   EslintDriver,
@@ -10,7 +10,23 @@ import {
   CppcheckDriver,
   CheckstyleDriver,
   FindbugsDriver,
+  IstanbulCoverageReporter,
+  LcovCoverageReporter,
+  XmlCoverageReporter,
+  CompositeCoverageReporter,
+  SourceMappedCoverageReporter,
+  V8CoverageReporter,
+  GoCoverageReporter,
+  CoveragePyJsonReporter,
+  LlvmCovJsonReporter,
+  GcovJsonReporter,
+  MissingFilesAsUncoveredReporter,
+  IgnorePragmasReporter,
 } from "../src/violations_reporter";
+import { parseExcludeLines } from "../src/ignore_pragmas";
+import { SourceMap } from "../src/source_map";
+import { Snippet } from "../src/snippets";
+import { PathMapTool } from "../src/path_map";
 import * as commandRunner from "../src/command_runner";
 
 (jest as any).mock("../src/command_runner", () => ({
@@ -329,3 +345,921 @@ describe("FindbugsDriver", () => {
     expect(violations["com/example/Other.java"]![0]!.message).toBe("Another error");
   });
 });
+
+describe("IstanbulCoverageReporter", () => {
+  const report = JSON.stringify({
+    "src/file.ts": {
+      path: "src/file.ts",
+      statementMap: {
+        "0": { start: { line: 1, column: 0 }, end: { line: 1, column: 20 } },
+        "1": { start: { line: 2, column: 2 }, end: { line: 2, column: 10 } },
+        "2": { start: { line: 2, column: 12 }, end: { line: 2, column: 20 } },
+        "3": { start: { line: 4, column: 0 }, end: { line: 6, column: 1 } },
+      },
+      s: { "0": 3, "1": 0, "2": 1, "3": 0 },
+      fnMap: {},
+      f: {},
+      branchMap: {},
+      b: {},
+    },
+  });
+
+  test("should read function calls from fnMap", () => {
+    const withFunctions = JSON.stringify({
+      "src/file.ts": {
+        path: "src/file.ts",
+        statementMap: {},
+        s: {},
+        fnMap: {
+          "0": {
+            name: "called",
+            decl: { start: { line: 1, column: 9 }, end: { line: 1, column: 15 } },
+            loc: { start: { line: 1, column: 18 }, end: { line: 3, column: 1 } },
+          },
+          "1": { name: "(anonymous_1)", loc: { start: { line: 5, column: 0 } }, line: 5 },
+        },
+        f: { "0": 2, "1": 0 },
+      },
+    });
+    const reporter = new IstanbulCoverageReporter([withFunctions]);
+
+    const functions = reporter.functions("src/file.ts")!;
+    expect(functions.map((f) => [f.name, f.line, f.calls])).toEqual([
+      ["called", 1, 2],
+      ["(anonymous_1)", 5, 0],
+    ]);
+  });
+
+  test("should derive measured and uncovered lines from statements", () => {
+    const reporter = new IstanbulCoverageReporter([report]);
+
+    expect(reporter.measuredLines("src/file.ts")!.sort((a, b) => a - b)).toEqual([1, 2, 4]);
+    // Line 2 has one executed statement, so only line 4 is uncovered
+    expect(reporter.violations("src/file.ts").map((v) => v.line)).toEqual([4]);
+  });
+
+  test("should sum hits across reports", () => {
+    const other = JSON.stringify({
+      "src/file.ts": {
+        data: {
+          path: "src/file.ts",
+          statementMap: {
+            "0": { start: { line: 4, column: 0 }, end: { line: 6, column: 1 } },
+          },
+          s: { "0": 2 },
+        },
+      },
+    });
+    const reporter = new IstanbulCoverageReporter([report, other]);
+
+    expect(reporter.violations("src/file.ts")).toHaveLength(0);
+  });
+
+  test("should return nothing for files missing from the report", () => {
+    const reporter = new IstanbulCoverageReporter([report]);
+
+    expect(reporter.violations("src/other.ts")).toHaveLength(0);
+    expect(reporter.measuredLines("src/other.ts")).toEqual([]);
+  });
+
+  test("should detect istanbul reports", () => {
+    expect(IstanbulCoverageReporter.isIstanbulReport(report)).toBe(true);
+    expect(IstanbulCoverageReporter.isIstanbulReport("SF:file.ts\nDA:1,1")).toBe(false);
+    expect(IstanbulCoverageReporter.isIstanbulReport('{"files": {}}')).toBe(false);
+  });
+});
+
+describe("LcovCoverageReporter", () => {
+  test("should parse BRDA records into branch coverage", () => {
+    const lcov = `
+SF:src/file.ts
+DA:1,1
+DA:2,1
+DA:5,0
+BRDA:2,0,0,3
+BRDA:2,0,1,0
+BRDA:5,1,0,-
+BRDA:5,1,1,-
+BRF:4
+BRH:1
+end_of_record
+`;
+    const reporter = new LcovCoverageReporter([lcov]);
+
+    const branches = reporter.branches("src/file.ts")!;
+    expect(branches.map((b) => [b.line, b.covered, b.total])).toEqual([
+      [2, 1, 2],
+      [5, 0, 2],
+    ]);
+    expect(reporter.violations("src/file.ts").map((v) => v.line)).toEqual([5]);
+  });
+
+  test("should merge branch hits across reports", () => {
+    const first = "SF:src/file.ts\nDA:2,1\nBRDA:2,0,0,1\nBRDA:2,0,1,0\nend_of_record";
+    const second = "SF:src/file.ts\nDA:2,1\nBRDA:2,0,0,0\nBRDA:2,0,1,4\nend_of_record";
+    const reporter = new LcovCoverageReporter([first, second]);
+
+    const branches = reporter.branches("src/file.ts")!;
+    expect(branches).toHaveLength(1);
+    expect(branches[0]!.covered).toBe(2);
+    expect(branches[0]!.total).toBe(2);
+  });
+
+  test("should return null branches when the report has none", () => {
+    const reporter = new LcovCoverageReporter(["SF:src/file.ts\nDA:1,1\nend_of_record"]);
+    expect(reporter.branches("src/file.ts")).toBeNull();
+    expect(reporter.functions("src/file.ts")).toBeNull();
+  });
+
+  test("should parse FN and FNDA records into function calls", () => {
+    const lcov = `
+SF:src/file.ts
+FN:1,used
+FN:5,9,unused
+FN:10,format(a, b)
+FNDA:3,used
+FNDA:0,unused
+FNDA:1,format(a, b)
+FNF:3
+FNH:2
+DA:1,3
+end_of_record
+`;
+    const reporter = new LcovCoverageReporter([lcov]);
+
+    const functions = reporter.functions("src/file.ts")!;
+    expect(functions.map((f) => [f.name, f.line, f.calls])).toEqual([
+      ["used", 1, 3],
+      ["unused", 5, 0],
+      ["format(a, b)", 10, 1],
+    ]);
+  });
+
+  test("should parse the FNL and FNA records of lcov 2.2", () => {
+    const lcov = "SF:src/file.ts\nFNL:0,4,8\nFNA:0,0,handler\nend_of_record";
+    const reporter = new LcovCoverageReporter([lcov]);
+
+    const functions = reporter.functions("src/file.ts")!;
+    expect(functions.map((f) => [f.name, f.line, f.calls])).toEqual([["handler", 4, 0]]);
+  });
+
+  test("should merge function calls according to the merge strategy", () => {
+    const first = "SF:src/file.ts\nFN:2,run\nFNDA:2,run\nend_of_record";
+    const second = "SF:src/file.ts\nFN:2,run\nFNDA:0,run\nend_of_record";
+
+    const union = new LcovCoverageReporter([first, second]);
+    expect(union.functions("src/file.ts")!.map((f) => f.calls)).toEqual([2]);
+
+    const intersection = new LcovCoverageReporter([first, second], null, false, "intersection");
+    expect(intersection.functions("src/file.ts")!.map((f) => f.calls)).toEqual([0]);
+  });
+});
+
+describe("XmlCoverageReporter", () => {
+  test("should read branch coverage from cobertura condition-coverage", () => {
+    const xml = `<?xml version="1.0" ?>
+<coverage>
+  <packages><package name="."><classes>
+    <class filename="src/file.ts">
+      <lines>
+        <line number="1" hits="1"/>
+        <line number="2" hits="3" branch="true" condition-coverage="50% (1/2)"/>
+        <line number="3" hits="2" branch="true" condition-coverage="100% (4/4)"/>
+      </lines>
+    </class>
+  </classes></package></packages>
+</coverage>`;
+    const reporter = new XmlCoverageReporter([xml]);
+
+    const branches = reporter.branches("src/file.ts")!;
+    expect(branches.map((b) => [b.line, b.covered, b.total])).toEqual([
+      [2, 1, 2],
+      [3, 4, 4],
+    ]);
+  });
+
+  test("should read branch coverage from clover cond lines", () => {
+    const xml = `<?xml version="1.0" ?>
+<coverage clover="3.2.0">
+  <project>
+    <file path="src/file.ts">
+      <line num="1" count="1" type="stmt"/>
+      <line num="2" type="cond" truecount="2" falsecount="0"/>
+      <line num="3" count="0" type="cond" truecount="0" falsecount="0"/>
+    </file>
+  </project>
+</coverage>`;
+    const reporter = new XmlCoverageReporter([xml]);
+
+    const branches = reporter.branches("src/file.ts")!;
+    expect(branches.map((b) => [b.line, b.covered, b.total])).toEqual([
+      [2, 1, 2],
+      [3, 0, 2],
+    ]);
+    // A cond line without a count is covered when one of its branches ran
+    expect(reporter.violations("src/file.ts").map((v) => v.line)).toEqual([3]);
+  });
+
+  test("should read branch coverage from jacoco mb/cb attributes", () => {
+    const xml = `<?xml version="1.0" ?>
+<report name="example">
+  <package name="com/example">
+    <sourcefile name="File.java">
+      <line nr="10" mi="0" ci="3" mb="1" cb="1"/>
+      <line nr="11" mi="0" ci="2" mb="0" cb="0"/>
+    </sourcefile>
+  </package>
+</report>`;
+    const reporter = new XmlCoverageReporter([xml]);
+
+    const branches = reporter.branches("com/example/File.java")!;
+    expect(branches.map((b) => [b.line, b.covered, b.total])).toEqual([[10, 1, 2]]);
+  });
+
+  test("should return null branches without branch data", () => {
+    const xml = `<?xml version="1.0" ?>
+<coverage>
+  <packages><package name="."><classes>
+    <class filename="src/file.ts"><lines><line number="1" hits="1"/></lines></class>
+  </classes></package></packages>
+</coverage>`;
+    const reporter = new XmlCoverageReporter([xml]);
+
+    expect(reporter.branches("src/file.ts")).toBeNull();
+  });
+
+  test("should tell jacoco reports apart by their root element or a given dialect", () => {
+    const xml = `<report>
+  <package name="com/example">
+    <sourcefile name="File.java"><line nr="10" mi="1" ci="0"/></sourcefile>
+  </package>
+</report>`;
+
+    expect(new XmlCoverageReporter([xml]).violations("com/example/File.java")).toHaveLength(1);
+    expect(
+      new XmlCoverageReporter([xml], null, false, "union", [], "jacoco").measuredLines(
+        "com/example/File.java",
+      ),
+    ).toEqual([10]);
+    // Read as Cobertura, the report has no classes
+    expect(
+      new XmlCoverageReporter([xml], null, false, "union", [], "cobertura").measuredLines(
+        "com/example/File.java",
+      ),
+    ).toEqual([]);
+  });
+
+  test("should only load the requested files, in one scan per batch", () => {
+    const xml = `<?xml version="1.0" ?>
+<coverage>
+  <packages><package name="."><classes>
+    <class filename="src/a.ts"><lines><line number="1" hits="0"/></lines></class>
+    <class filename="src/b.ts"><lines><line number="2" hits="1"/></lines></class>
+  </classes></package></packages>
+</coverage>`;
+    const reporter = new XmlCoverageReporter([xml]);
+    const scanReport = jest.spyOn(reporter as any, "_scanReport");
+
+    expect(reporter.violationsBatch(["src/a.ts"])["src/a.ts"]!.map((v) => v.line)).toEqual([1]);
+    expect(reporter.measuredLines("src/a.ts")).toEqual([1]);
+    expect(reporter.branches("src/a.ts")).toBeNull();
+    expect(scanReport.mock.calls.map(([, srcPaths]) => srcPaths)).toEqual([["src/a.ts"]]);
+
+    expect(reporter.measuredLines("src/b.ts")).toEqual([2]);
+    expect(scanReport.mock.calls.map(([, srcPaths]) => srcPaths)).toEqual([
+      ["src/a.ts"],
+      ["src/b.ts"],
+    ]);
+  });
+});
+
+describe("CompositeCoverageReporter", () => {
+  const lcov = `
+SF:web/app.ts
+DA:1,1
+DA:2,0
+SF:shared/util.ts
+DA:1,0
+DA:2,0
+BRDA:2,0,0,0
+BRDA:2,0,1,1
+end_of_record
+`;
+  const xml = `<?xml version="1.0" ?>
+<coverage>
+  <packages><package name="."><classes>
+    <class filename="shared/util.ts">
+      <lines>
+        <line number="1" hits="4"/>
+        <line number="2" hits="0"/>
+        <line number="3" hits="0"/>
+      </lines>
+    </class>
+  </classes></package></packages>
+</coverage>`;
+
+  test("should combine reporter names", () => {
+    const reporter = new CompositeCoverageReporter([
+      new LcovCoverageReporter([lcov]),
+      new XmlCoverageReporter([xml]),
+    ]);
+    expect(reporter.name()).toBe("LCOV, XML");
+  });
+
+  test("should merge measured lines and violations per file", () => {
+    const reporter = new CompositeCoverageReporter([
+      new LcovCoverageReporter([lcov]),
+      new XmlCoverageReporter([xml]),
+    ]);
+
+    expect(reporter.violations("web/app.ts").map((v) => v.line)).toEqual([2]);
+    expect(reporter.measuredLines("shared/util.ts")!.sort((a, b) => a - b)).toEqual([1, 2, 3]);
+    // Line 1 is covered by the XML report
+    const violations = reporter.violations("shared/util.ts").map((v) => v.line);
+    expect(violations.sort((a, b) => a - b)).toEqual([2, 3]);
+  });
+
+  test("should merge branch coverage from reporters with branch data", () => {
+    const reporter = new CompositeCoverageReporter([
+      new LcovCoverageReporter([lcov]),
+      new XmlCoverageReporter([xml]),
+    ]);
+
+    expect(reporter.branches("web/app.ts")).toBeNull();
+    const branches = reporter.branches("shared/util.ts")!;
+    expect(branches.map((b) => [b.line, b.covered, b.total])).toEqual([[2, 1, 2]]);
+  });
+});
+
+describe("expand coverage report", () => {
+  const xml = `<?xml version="1.0" ?>
+<coverage>
+  <packages><package name="."><classes>
+    <class filename="src/file.ts">
+      <lines>
+        <line number="2" hits="1"/>
+        <line number="5" hits="0"/>
+        <line number="8" hits="3"/>
+      </lines>
+    </class>
+  </classes></package></packages>
+</coverage>`;
+  const lcov = "SF:src/file.ts\nDA:2,1\nDA:5,0\nDA:8,3\nend_of_record";
+
+  test("should not expand xml reports by default", () => {
+    const reporter = new XmlCoverageReporter([xml]);
+
+    expect(reporter.measuredLines("src/file.ts")!.sort((a, b) => a - b)).toEqual([2, 5, 8]);
+    expect(reporter.violations("src/file.ts").map((v) => v.line)).toEqual([5]);
+  });
+
+  test("should fill in unreported xml lines with the previous line's hits", () => {
+    const reporter = new XmlCoverageReporter([xml], null, true);
+
+    expect(reporter.measuredLines("src/file.ts")!.sort((a, b) => a - b)).toEqual([
+      2, 3, 4, 5, 6, 7, 8,
+    ]);
+    const violations = reporter.violations("src/file.ts").map((v) => v.line);
+    expect(violations.sort((a, b) => a - b)).toEqual([5, 6, 7]);
+  });
+
+  test("should fill in unreported lcov lines with the previous line's hits", () => {
+    const reporter = new LcovCoverageReporter([lcov], null, true);
+
+    expect(reporter.measuredLines("src/file.ts")!.sort((a, b) => a - b)).toEqual([
+      2, 3, 4, 5, 6, 7, 8,
+    ]);
+    const violations = reporter.violations("src/file.ts").map((v) => v.line);
+    expect(violations.sort((a, b) => a - b)).toEqual([5, 6, 7]);
+  });
+
+  test("should not expand lcov reports by default", () => {
+    const reporter = new LcovCoverageReporter([lcov]);
+
+    expect(reporter.measuredLines("src/file.ts")!.sort((a, b) => a - b)).toEqual([2, 5, 8]);
+  });
+});
+
+describe("merge strategy", () => {
+  const unitXml = `<?xml version="1.0" ?>
+<coverage>
+  <packages><package name="."><classes>
+    <class filename="src/file.ts">
+      <lines>
+        <line number="1" hits="1"/>
+        <line number="2" hits="0"/>
+        <line number="3" hits="0"/>
+      </lines>
+    </class>
+  </classes></package></packages>
+</coverage>`;
+  const e2eXml = `<?xml version="1.0" ?>
+<coverage>
+  <packages><package name="."><classes>
+    <class filename="src/file.ts">
+      <lines>
+        <line number="1" hits="0"/>
+        <line number="2" hits="5"/>
+      </lines>
+    </class>
+  </classes></package></packages>
+</coverage>`;
+  const unitLcov = "SF:src/file.ts\nDA:1,1\nDA:2,0\nDA:3,0\nend_of_record";
+  const e2eLcov = "SF:src/file.ts\nDA:1,0\nDA:2,5\nend_of_record";
+
+  const violationLines = (reporter: { violations(srcPath: string): Violation[] }) =>
+    reporter
+      .violations("src/file.ts")
+      .map((v) => v.line)
+      .sort((a, b) => a - b);
+
+  test("union treats a line as covered when any report covers it", () => {
+    expect(
+      violationLines(new XmlCoverageReporter([unitXml, e2eXml], null, false, "union")),
+    ).toEqual([3]);
+    expect(
+      violationLines(new LcovCoverageReporter([unitLcov, e2eLcov], null, false, "union")),
+    ).toEqual([3]);
+  });
+
+  test("intersection requires every report measuring a line to cover it", () => {
+    expect(
+      violationLines(new XmlCoverageReporter([unitXml, e2eXml], null, false, "intersection")),
+    ).toEqual([1, 2, 3]);
+    expect(
+      violationLines(new LcovCoverageReporter([unitLcov, e2eLcov], null, false, "intersection")),
+    ).toEqual([1, 2, 3]);
+  });
+
+  test("merges across reporters consistently", () => {
+    const union = new CompositeCoverageReporter(
+      [new XmlCoverageReporter([unitXml]), new LcovCoverageReporter([e2eLcov])],
+      "union",
+    );
+    const intersection = new CompositeCoverageReporter(
+      [new XmlCoverageReporter([unitXml]), new LcovCoverageReporter([e2eLcov])],
+      "intersection",
+    );
+
+    expect(violationLines(union)).toEqual([3]);
+    expect(violationLines(intersection)).toEqual([1, 2, 3]);
+  });
+});
+
+describe("SourceMappedCoverageReporter", () => {
+  // dist/index.js lines 1-2 come from src/a.ts, line 3 is bundler glue and
+  // line 4 comes from line 5 of src/b.ts
+  const rawMap = {
+    version: 3,
+    sources: ["../src/a.ts", "../src/b.ts"],
+    mappings: "AAAA;AACA;;ACGA",
+  };
+  const lcov = [
+    "SF:dist/index.js",
+    "DA:1,1",
+    "DA:2,0",
+    "DA:3,0",
+    "DA:4,3",
+    "BRDA:4,0,0,1",
+    "BRDA:4,0,1,0",
+    "end_of_record",
+    "SF:src/other.ts",
+    "DA:1,0",
+    "end_of_record",
+  ].join("\n");
+
+  const loadSourceMap = (generatedPath: string) =>
+    generatedPath === "dist/index.js" ? new SourceMap(rawMap, "/repo/dist") : null;
+
+  test("remaps generated lines to the original sources", () => {
+    const reporter = new SourceMappedCoverageReporter(
+      new LcovCoverageReporter([lcov]),
+      loadSourceMap,
+    );
+
+    expect(reporter.violations("/repo/src/a.ts").map((v) => v.line)).toEqual([2]);
+    expect(reporter.measuredLines("/repo/src/a.ts")).toEqual([1, 2]);
+    expect(reporter.violations("/repo/src/b.ts")).toEqual([]);
+    expect(reporter.measuredLines("/repo/src/b.ts")).toEqual([5]);
+    expect(reporter.branches("/repo/src/b.ts")).toEqual([{ line: 5, covered: 1, total: 2 }]);
+  });
+
+  test("passes through files without a source map", () => {
+    const reporter = new SourceMappedCoverageReporter(
+      new LcovCoverageReporter([lcov]),
+      loadSourceMap,
+    );
+
+    expect(reporter.violations("src/other.ts").map((v) => v.line)).toEqual([1]);
+    expect(reporter.reportedPaths()).toContain("src/other.ts");
+    expect(reporter.reportedPaths()).not.toContain("dist/index.js");
+  });
+
+  test("reads the generated files in one batch", () => {
+    const lcovReporter = new LcovCoverageReporter([lcov]);
+    const violationsBatch = jest.spyOn(lcovReporter, "violationsBatch");
+    const reporter = new SourceMappedCoverageReporter(lcovReporter, loadSourceMap);
+
+    const batch = reporter.violationsBatch(["/repo/src/a.ts", "src/other.ts"]);
+    expect(batch["/repo/src/a.ts"]!.map((v) => v.line)).toEqual([2]);
+    expect(batch["src/other.ts"]!.map((v) => v.line)).toEqual([1]);
+    expect(violationsBatch.mock.calls.map(([srcPaths]) => srcPaths)).toEqual([
+      ["/repo/src/a.ts", "src/other.ts"],
+      ["dist/index.js"],
+    ]);
+  });
+
+  test("collects source map errors as warnings", () => {
+    const reporter = new SourceMappedCoverageReporter(
+      new LcovCoverageReporter([lcov]),
+      (generatedPath) => {
+        if (generatedPath === "dist/index.js") throw new Error("Unexpected token");
+        return null;
+      },
+    );
+
+    expect(reporter.violations("src/other.ts").map((v) => v.line)).toEqual([1]);
+    expect(reporter.warnings()).toEqual([
+      "Could not read the source map of dist/index.js: Unexpected token",
+    ]);
+  });
+});
+
+describe("V8CoverageReporter", () => {
+  const source = [
+    "function used() {",
+    "  return 1;",
+    "}",
+    "",
+    "function unused() {",
+    "  return 2;",
+    "}",
+    "used();",
+  ].join("\n");
+  const unusedStart = source.indexOf("function unused");
+  const unusedEnd = source.indexOf("used();", unusedStart + 10);
+
+  const dump = (unusedCount: number) =>
+    JSON.stringify({
+      result: [
+        {
+          scriptId: "1",
+          url: "file:///repo/src/app.js",
+          functions: [
+            { functionName: "", ranges: [{ startOffset: 0, endOffset: source.length, count: 1 }] },
+            {
+              functionName: "unused",
+              ranges: [{ startOffset: unusedStart, endOffset: unusedEnd, count: unusedCount }],
+            },
+          ],
+        },
+        { scriptId: "2", url: "node:internal/main", functions: [] },
+      ],
+    });
+
+  beforeEach(() => {
+    mockReadFileSync.mockReset();
+    mockReadFileSync.mockReturnValue(Buffer.from(source));
+  });
+
+  test("detects V8 coverage dumps", () => {
+    expect(V8CoverageReporter.isV8Report(dump(0))).toBe(true);
+    expect(V8CoverageReporter.isV8Report('{"src/a.ts": {"statementMap": {}}}')).toBe(false);
+  });
+
+  test("converts block ranges to line hits", () => {
+    const reporter = new V8CoverageReporter([[dump(0)]]);
+
+    expect(reporter.violations("/repo/src/app.js").map((v) => v.line)).toEqual([5, 6, 7]);
+    expect(reporter.measuredLines("/repo/src/app.js")!.sort((a, b) => a - b)).toEqual([
+      1, 2, 3, 5, 6, 7, 8,
+    ]);
+    expect(reporter.reportedPaths()).toEqual(["/repo/src/app.js"]);
+  });
+
+  test("adds up hits of every process dump in a directory", () => {
+    const reporter = new V8CoverageReporter([[dump(0), dump(1)]]);
+    expect(reporter.violations("/repo/src/app.js")).toEqual([]);
+  });
+});
+
+describe("GoCoverageReporter", () => {
+  const profile = [
+    "mode: set",
+    "github.com/acme/shop/cart/cart.go:3.20,5.10 2 1",
+    "github.com/acme/shop/cart/cart.go:5.10,7.3 1 0",
+    "github.com/acme/shop/cart/cart.go:8.2,8.14 1 1",
+    "github.com/acme/shop/cart/cart.go:9.1,9.2 0 0",
+    "github.com/other/lib/x.go:1.1,2.2 1 0",
+  ].join("\n");
+
+  test("detects coverprofiles from the mode header", () => {
+    expect(GoCoverageReporter.isGoCoverProfile(profile)).toBe(true);
+    expect(GoCoverageReporter.isGoCoverProfile("TN:\nSF:a.go\nend_of_record")).toBe(false);
+  });
+
+  test("expands blocks to lines under the module directory", () => {
+    const reporter = new GoCoverageReporter([profile], {
+      "github.com/acme/shop": "services/shop",
+    });
+    const srcPath = "services/shop/cart/cart.go";
+
+    expect(reporter.violations(srcPath).map((v) => v.line)).toEqual([6, 7]);
+    expect(reporter.measuredLines(srcPath)).toEqual([3, 4, 5, 6, 7, 8]);
+    expect(reporter.violations("github.com/other/lib/x.go").map((v) => v.line)).toEqual([1, 2]);
+  });
+
+  test("finds module paths of tracked go.mod files", () => {
+    (commandRunner.execute as jest.Mock).mockReturnValue(["go.mod\nservices/shop/go.mod\n", ""]);
+    mockReadFileSync.mockReset();
+    mockReadFileSync.mockImplementation((p: string) =>
+      p === "go.mod" ? "module github.com/acme/mono\n" : "module github.com/acme/shop\n\ngo 1.22\n",
+    );
+
+    expect(GoCoverageReporter.findGoModules()).toEqual({
+      "github.com/acme/mono": ".",
+      "github.com/acme/shop": "services/shop",
+    });
+  });
+});
+
+describe("CoveragePyJsonReporter", () => {
+  const report = (file: object) =>
+    JSON.stringify({
+      meta: { version: "7.4.0", branch_coverage: true },
+      files: { "app/views.py": file },
+      totals: {},
+    });
+  const unitReport = report({
+    executed_lines: [1, 2, 3, 5],
+    missing_lines: [6, 8],
+    excluded_lines: [8, 9],
+    executed_branches: [
+      [3, 5],
+      [5, -1],
+    ],
+    missing_branches: [
+      [3, 4],
+      [5, 6],
+    ],
+  });
+
+  test("detects coverage.py JSON reports", () => {
+    expect(CoveragePyJsonReporter.isCoveragePyReport(unitReport)).toBe(true);
+    expect(CoveragePyJsonReporter.isCoveragePyReport('{"app.js": {"statementMap": {}}}')).toBe(
+      false,
+    );
+  });
+
+  test("does not measure excluded lines", () => {
+    const reporter = new CoveragePyJsonReporter([unitReport]);
+
+    expect(reporter.violations("app/views.py").map((v) => v.line)).toEqual([6]);
+    expect(reporter.measuredLines("app/views.py")).toEqual([1, 2, 3, 5, 6]);
+  });
+
+  test("reports branch arcs per source line", () => {
+    const reporter = new CoveragePyJsonReporter([unitReport]);
+
+    expect(reporter.branches("app/views.py")).toEqual([
+      { line: 3, covered: 1, total: 2 },
+      { line: 5, covered: 1, total: 2 },
+    ]);
+  });
+
+  test("merges arcs taken in any report", () => {
+    const e2eReport = report({
+      executed_lines: [1, 2, 3, 4],
+      missing_lines: [],
+      executed_branches: [[3, 4]],
+      missing_branches: [],
+    });
+    const reporter = new CoveragePyJsonReporter([unitReport, e2eReport]);
+
+    expect(reporter.branches("app/views.py")![0]).toEqual({ line: 3, covered: 2, total: 2 });
+  });
+});
+
+describe("LlvmCovJsonReporter", () => {
+  // fn main() {      <- region entry, count 1
+  //   if flag {      <- nested region entry, count 0
+  //     foo();
+  //   }              <- back to the function's count
+  // }
+  const report = JSON.stringify({
+    type: "llvm.coverage.json.export",
+    version: "2.0.1",
+    data: [
+      {
+        files: [
+          {
+            filename: "/repo/src/main.rs",
+            segments: [
+              [1, 11, 1, true, true, false],
+              [2, 13, 0, true, true, false],
+              [4, 4, 1, true, false, false],
+              [5, 2, 0, false, false, false],
+            ],
+            branches: [[2, 6, 2, 10, 1, 0, 0, 0, 4]],
+          },
+        ],
+      },
+    ],
+  });
+
+  test("detects llvm-cov exports", () => {
+    expect(LlvmCovJsonReporter.isLlvmCovReport(report)).toBe(true);
+    expect(LlvmCovJsonReporter.isLlvmCovReport('{"type": "other"}')).toBe(false);
+  });
+
+  test("derives line hits from segments", () => {
+    const reporter = new LlvmCovJsonReporter([report]);
+
+    expect(reporter.violations("/repo/src/main.rs").map((v) => v.line)).toEqual([3, 4]);
+    expect(reporter.measuredLines("/repo/src/main.rs")).toEqual([1, 2, 3, 4, 5]);
+    expect(reporter.branches("/repo/src/main.rs")).toEqual([{ line: 2, covered: 1, total: 2 }]);
+  });
+
+  test("skips branch entries without line and counts", () => {
+    const shortBranch = JSON.stringify({
+      type: "llvm.coverage.json.export",
+      data: [{ files: [{ filename: "/repo/src/lib.rs", branches: [[2, 6, 2, 10]] }] }],
+    });
+    const reporter = new LlvmCovJsonReporter([shortBranch]);
+
+    expect(reporter.branches("/repo/src/lib.rs")).toBeNull();
+  });
+});
+
+describe("GcovJsonReporter", () => {
+  const document = (count: number) =>
+    JSON.stringify({
+      format_version: "1",
+      gcc_version: "12.2.0",
+      current_working_directory: "/build",
+      files: [
+        {
+          file: "src/main.cpp",
+          lines: [
+            {
+              line_number: 3,
+              count: 2,
+              branches: [
+                { count: 2, throw: false },
+                { count: 0, throw: false },
+                { count: 0, throw: true },
+              ],
+            },
+            { line_number: 4, count },
+            { line_number: 3, count: 1 },
+          ],
+        },
+      ],
+    });
+
+  test("detects gcov JSON reports", () => {
+    expect(GcovJsonReporter.isGcovReport(document(0))).toBe(true);
+    expect(GcovJsonReporter.isGcovReport('{"files": []}')).toBe(false);
+  });
+
+  test("reads lines and branches relative to the gcov working directory", () => {
+    const reporter = new GcovJsonReporter([document(0)]);
+
+    expect(reporter.violations("/build/src/main.cpp").map((v) => v.line)).toEqual([4]);
+    expect(reporter.measuredLines("/build/src/main.cpp")).toEqual([3, 4]);
+    expect(reporter.branches("/build/src/main.cpp")).toEqual([{ line: 3, covered: 1, total: 2 }]);
+  });
+
+  test("reads one document per line from --stdout output", () => {
+    const reporter = new GcovJsonReporter([`${document(0)}\n${document(1)}\n`]);
+    expect(reporter.violations("/build/src/main.cpp")).toEqual([]);
+    expect(reporter.branches("/build/src/main.cpp")).toEqual([{ line: 3, covered: 2, total: 4 }]);
+  });
+
+  test("skips documents and files of an unexpected shape", () => {
+    const reporter = new GcovJsonReporter([
+      `{"gcc_version": "12.2.0"}\n{"files": [{"lines": []}]}\n${document(0)}`,
+    ]);
+
+    expect(reporter.violations("/build/src/main.cpp").map((v) => v.line)).toEqual([4]);
+    expect(reporter.reportedPaths()).toEqual(["/build/src/main.cpp"]);
+  });
+});
+
+describe("path map", () => {
+  afterEach(() => {
+    PathMapTool.setPathMap(null);
+  });
+
+  test("is applied to coverage report paths", () => {
+    PathMapTool.setPathMap([["/home/runner/work/app/app", "."]]);
+    const lcov = "SF:/home/runner/work/app/app/src/file.ts\nDA:1,0\nend_of_record";
+    const xml = `<?xml version="1.0" ?>
+<coverage><sources><source>/home/runner/work/app/app</source></sources><packages><package><classes>
+<class filename="src/file.ts"><lines><line number="2" hits="0"/></lines></class>
+</classes></package></packages></coverage>`;
+
+    expect(new LcovCoverageReporter([lcov]).violations("src/file.ts")).toEqual([
+      new Violation(1, null),
+    ]);
+    expect(new XmlCoverageReporter([xml]).violations("src/file.ts")).toEqual([
+      new Violation(2, null),
+    ]);
+  });
+
+  test("is applied to quality report paths", () => {
+    PathMapTool.setPathMap([["/app", "."]]);
+    const reporter = new QualityReporter(new EslintDriver(), [
+      "/app/src/file.ts: line 3, col 1, Error - Unexpected var",
+    ]);
+
+    expect(reporter.violations("src/file.ts")).toEqual([
+      new Violation(3, "Error - Unexpected var"),
+    ]);
+  });
+});
+
+describe("MissingFilesAsUncoveredReporter", () => {
+  const lcov = "SF:src/tested.ts\nDA:1,1\nend_of_record\nSF:src/types.ts\nend_of_record";
+  const source = [
+    "// A new module",
+    "export function add(a, b) {",
+    "",
+    "  return a + b;",
+    "}",
+  ].join("\n");
+
+  beforeEach(() => {
+    mockReadFileSync.mockReset();
+    mockReadFileSync.mockReturnValue(Buffer.from(source));
+  });
+
+  test("counts executable lines of unreported files as uncovered", () => {
+    const reporter = new MissingFilesAsUncoveredReporter(new LcovCoverageReporter([lcov]));
+
+    expect(reporter.violations("src/new.ts").map((v) => v.line)).toEqual([2, 4]);
+    expect(reporter.measuredLines("src/new.ts")).toEqual([2, 4]);
+  });
+
+  test("keeps reported files and other extensions as they are", () => {
+    const reporter = new MissingFilesAsUncoveredReporter(new LcovCoverageReporter([lcov]), [".ts"]);
+
+    expect(reporter.measuredLines("src/tested.ts")).toEqual([1]);
+    expect(reporter.measuredLines("src/types.ts")).toEqual([]);
+    expect(reporter.measuredLines("docs/guide.md")).toEqual([]);
+    expect(reporter.measuredLines("src/new.js")).toEqual([]);
+  });
+});
+
+describe("IgnorePragmasReporter", () => {
+  const lcov =
+    "SF:src/app.py\nDA:1,1\nDA:2,0\nDA:3,0\nDA:4,0\nBRDA:2,0,0,0\nBRDA:2,0,1,1\nend_of_record";
+  const source = ["run()", "if DEBUG:  # pragma: no cover", "    dump()", "done()"].join("\n");
+
+  beforeEach(() => {
+    mockReadFileSync.mockReset();
+    mockReadFileSync.mockReturnValue(Buffer.from(source));
+  });
+
+  test("removes ignored lines from violations, measured lines and branches", () => {
+    const reporter = new IgnorePragmasReporter(
+      new LcovCoverageReporter([lcov]),
+      parseExcludeLines(undefined),
+    );
+
+    expect(reporter.violations("src/app.py").map((v) => v.line)).toEqual([4]);
+    expect(reporter.measuredLines("src/app.py")).toEqual([1, 4]);
+    expect(reporter.ignoredLines("src/app.py")).toEqual([2, 3]);
+    expect(reporter.branches("src/app.py")).toEqual([]);
+  });
+
+  test("does not read files missing from the report", () => {
+    const reporter = new IgnorePragmasReporter(
+      new LcovCoverageReporter([lcov]),
+      parseExcludeLines(undefined),
+    );
+
+    expect(reporter.measuredLines("docs/guide.md")).toEqual([]);
+    expect(reporter.ignoredLines("docs/guide.md")).toEqual([]);
+    expect(mockReadFileSync).not.toHaveBeenCalled();
+  });
+
+  test("reads the sources at the revision the diff ends at", () => {
+    const mockExecute = commandRunner.execute as jest.Mock;
+    mockExecute.mockReset();
+    mockExecute.mockReturnValue([["run()", "dump()  # pragma: no cover", "", ""].join("\n"), ""]);
+    Snippet.setRevision("v1.3.0");
+    const reporter = new IgnorePragmasReporter(
+      new LcovCoverageReporter([lcov]),
+      parseExcludeLines(undefined),
+    );
+
+    try {
+      expect(reporter.ignoredLines("src/app.py")).toEqual([2]);
+      expect(mockExecute).toHaveBeenCalledWith(["git", "show", "v1.3.0:./src/app.py"]);
+      expect(mockReadFileSync).not.toHaveBeenCalled();
+    } finally {
+      Snippet.setRevision(null);
+    }
+  });
+});
@@ -0,0 +1,162 @@
+import { afterAll, describe, expect, jest, test } from "bun:test";
+import os from "os";
+import path from "path";
+import { DOMParser } from "@xmldom/xmldom";
+import xpath from "xpath";
+import { CHUNK_SIZE, XmlStreamError, XmlStreamParser, scanXmlString } from "../src/xml_stream";
+import { XmlCoverageReporter } from "../src/violations_reporter";
+
+// Other test files mock fs, these tests stream real files
+const realFs = require("fs");
+(jest as any).mock("fs", () => ({ ...realFs, default: realFs }));
+
+function collectEvents(write: (parser: XmlStreamParser) => void): string[] {
+  const events: string[] = [];
+  const parser = new XmlStreamParser({
+    openTag: (name, attributes) => events.push(`open ${name} ${JSON.stringify(attributes)}`),
+    closeTag: (name) => events.push(`close ${name}`),
+    text: (text) => {
+      if (text.trim()) events.push(`text ${text.trim()}`);
+    },
+  });
+  write(parser);
+  parser.end();
+  return events;
+}
+
+describe("XmlStreamParser", () => {
+  const document = [
+    '<?xml version="1.0" ?>',
+    '<!DOCTYPE coverage SYSTEM "http://cobertura.sourceforge.net/xml/coverage-04.dtd">',
+    "<!-- generated -->",
+    "<coverage>",
+    "  <sources><source>/repo &amp; co</source></sources>",
+    '  <class filename="a.py" name=\'a > b\'><lines><line number="1" hits="0"/></lines></class>',
+    "  <![CDATA[raw <text>]]>",
+    "</coverage>",
+  ].join("\n");
+
+  const expected = [
+    "open coverage {}",
+    "open sources {}",
+    "open source {}",
+    "text /repo & co",
+    "close source",
+    "close sources",
+    'open class {"filename":"a.py","name":"a > b"}',
+    "open lines {}",
+    'open line {"number":"1","hits":"0"}',
+    "close line",
+    "close lines",
+    "close class",
+    "text raw <text>",
+    "close coverage",
+  ];
+
+  test("reports tags, attributes and text", () => {
+    expect(collectEvents((parser) => parser.write(document))).toEqual(expected);
+  });
+
+  test("handles markup split across chunks", () => {
+    const events = collectEvents((parser) => {
+      for (let i = 0; i < document.length; i += 3) {
+        parser.write(document.slice(i, i + 3));
+      }
+    });
+    expect(events).toEqual(expected);
+  });
+
+  test("rejects truncated documents", () => {
+    expect(() => scanXmlString('<coverage><class filename="a.py', {})).toThrow(XmlStreamError);
+  });
+});
+
+describe("XmlCoverageReporter streaming", () => {
+  const numClasses = 1500;
+  const linesPerClass = 40;
+
+  const classXml = (i: number) => {
+    const lines = [];
+    for (let line = 1; line <= linesPerClass; line++) {
+      lines.push(`<line number="${line}" hits="${line % 7 === 0 ? 0 : 1}"/>`);
+    }
+    return `<class name="c${i}" filename="src/pkg${i % 50}/file${i}.py"><methods/><lines>${lines.join("")}</lines></class>`;
+  };
+  const classes = Array.from({ length: numClasses }, (_, i) => classXml(i)).join("\n");
+  const xml = `<?xml version="1.0" ?>\n<coverage><sources><source>/repo</source></sources><packages><package name="pkg"><classes>${classes}</classes></package></packages></coverage>`;
+  const changedPaths = Array.from(
+    { length: 20 },
+    (_, i) => `src/pkg${(i * 75) % 50}/file${i * 75}.py`,
+  );
+
+  // What the reporter did before streaming: parse a DOM, then run XPath per file
+  const domViolations = () => {
+    const xmlDocument = new DOMParser().parseFromString(xml, "text/xml");
+    const classNodes = xpath.select("//class", xmlDocument) as Element[];
+    const result: { [key: string]: number[] } = {};
+    for (const srcPath of changedPaths) {
+      const clazz = classNodes.find((node) => node.getAttribute("filename") === srcPath)!;
+      result[srcPath] = (xpath.select("./lines/line", clazz) as Element[])
+        .filter((line) => line.getAttribute("hits") === "0")
+        .map((line) => parseInt(line.getAttribute("number")!, 10));
+    }
+    return result;
+  };
+
+  const xmlFile = path.join(realFs.mkdtempSync(path.join(os.tmpdir(), "xml-stream-")), "cov.xml");
+  realFs.writeFileSync(xmlFile, xml);
+  afterAll(() => {
+    realFs.rmSync(path.dirname(xmlFile), { recursive: true, force: true });
+  });
+
+  const streamingViolations = (reporter = new XmlCoverageReporter([xml])) => {
+    const batch = reporter.violationsBatch(changedPaths);
+    const result: { [key: string]: number[] } = {};
+    for (const srcPath of changedPaths) {
+      result[srcPath] = batch[srcPath]!.map((v) => v.line);
+    }
+    return result;
+  };
+
+  test("finds the same violations as building a DOM", () => {
+    const streamingResult = streamingViolations();
+
+    expect(streamingResult).toEqual(domViolations());
+    expect(streamingResult[changedPaths[0]!]).toEqual([7, 14, 21, 28, 35]);
+  });
+
+  test("streams a report file in fixed-size chunks", () => {
+    const write = jest.spyOn(XmlStreamParser.prototype, "write");
+    try {
+      const reporter = new XmlCoverageReporter([], null, false, "union", [xmlFile]);
+      expect(streamingViolations(reporter)).toEqual(domViolations());
+
+      // The report is never held whole, unlike the DOM which parses all of it
+      const chunkLengths = write.mock.calls.map(([chunk]) => chunk.length);
+      expect(realFs.statSync(xmlFile).size).toBeGreaterThan(CHUNK_SIZE);
+      expect(chunkLengths.length).toBeGreaterThan(1);
+      expect(Math.max(...chunkLengths)).toBeLessThanOrEqual(CHUNK_SIZE);
+    } finally {
+      write.mockRestore();
+    }
+  });
+
+  // Timings depend on the machine, so this only runs when asked for
+  test.skipIf(!process.env.DIFF_COVER_BENCHMARK)(
+    "streams the report faster than building a DOM",
+    () => {
+      const timed = (fn: () => unknown) => {
+        const start = performance.now();
+        fn();
+        return performance.now() - start;
+      };
+      const domMs = timed(domViolations);
+      const streamingMs = timed(() =>
+        streamingViolations(new XmlCoverageReporter([], null, false, "union", [xmlFile])),
+      );
+
+      console.log(`DOM: ${domMs.toFixed(1)}ms, streaming: ${streamingMs.toFixed(1)}ms`);
+      expect(streamingMs).toBeLessThan(domMs);
+    },
+  );
+});